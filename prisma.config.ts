@@ -1,7 +1,10 @@
 import { defineConfig, env } from "prisma/config";
 
+// file: URLs select the SQLite schema used for local development
+const sqlite = process.env.DATABASE_URL?.startsWith("file:") ?? false;
+
 export default defineConfig({
-  schema: "prisma/schema.prisma",
+  schema: sqlite ? "prisma/sqlite/schema.prisma" : "prisma/schema.prisma",
   migrations: {
     path: "prisma/migrations",
   },
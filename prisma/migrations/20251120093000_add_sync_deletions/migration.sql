@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE `sync_deletions` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `table_name` VARCHAR(64) NOT NULL,
+    `record_id` VARCHAR(36) NOT NULL,
+    `deleted_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `sync_deletions_table_name_deleted_at_idx`(`table_name`, `deleted_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `mh_off_orders` ADD COLUMN `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE `mh_products` ADD COLUMN `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3);
+
+-- Existing rows: the best approximation of when they first appeared is their last change
+UPDATE `mh_off_orders` SET `created_at` = `updated_at`;
+UPDATE `mh_products` SET `created_at` = `updated_at`;
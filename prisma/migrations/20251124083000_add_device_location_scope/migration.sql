@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE `sync_device_locations` (
+    `device_id` VARCHAR(64) NOT NULL,
+    `location_id` VARCHAR(36) NOT NULL,
+
+    PRIMARY KEY (`device_id`, `location_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `sync_deletions` ADD COLUMN `scope_value` VARCHAR(36) NULL;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE `sync_devices` (
+    `id` VARCHAR(64) NOT NULL,
+    `name` VARCHAR(255) NOT NULL,
+    `role` VARCHAR(16) NOT NULL DEFAULT 'device',
+    `api_key_hash` CHAR(64) NOT NULL,
+    `revoked_at` DATETIME(3) NULL,
+    `rotated_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
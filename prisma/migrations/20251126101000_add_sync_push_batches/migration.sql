@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE `sync_push_batches` (
+    `device_id` VARCHAR(64) NOT NULL,
+    `batch_id` VARCHAR(64) NOT NULL,
+    `result` TEXT NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `expires_at` DATETIME(3) NOT NULL,
+
+    INDEX `sync_push_batches_expires_at_idx`(`expires_at`),
+    PRIMARY KEY (`device_id`, `batch_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE `sync_sequence` (
+    `name` VARCHAR(32) NOT NULL,
+    `value` BIGINT NOT NULL,
+
+    PRIMARY KEY (`name`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `mh_off_orders` ADD COLUMN `created_seq` BIGINT NOT NULL DEFAULT 0,
+    ADD COLUMN `server_seq` BIGINT NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE `mh_products` ADD COLUMN `created_seq` BIGINT NOT NULL DEFAULT 0,
+    ADD COLUMN `server_seq` BIGINT NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE `sync_deletions` ADD COLUMN `seq` BIGINT NOT NULL DEFAULT 0;
+
+-- Existing rows: clients still hold last_pulled_at values in epoch milliseconds,
+-- so number the history by its (UTC) timestamps in milliseconds
+UPDATE `mh_off_orders` SET
+    `server_seq` = TIMESTAMPDIFF(MICROSECOND, '1970-01-01 00:00:00', `updated_at`) DIV 1000,
+    `created_seq` = TIMESTAMPDIFF(MICROSECOND, '1970-01-01 00:00:00', `created_at`) DIV 1000;
+UPDATE `mh_products` SET
+    `server_seq` = TIMESTAMPDIFF(MICROSECOND, '1970-01-01 00:00:00', `updated_at`) DIV 1000,
+    `created_seq` = TIMESTAMPDIFF(MICROSECOND, '1970-01-01 00:00:00', `created_at`) DIV 1000;
+UPDATE `sync_deletions` SET
+    `seq` = TIMESTAMPDIFF(MICROSECOND, '1970-01-01 00:00:00', `deleted_at`) DIV 1000;
+
+-- ...and continue the sequence above both the current time and every backfilled value
+INSERT INTO `sync_sequence` (`name`, `value`)
+SELECT 'changes', GREATEST(
+    FLOOR(UNIX_TIMESTAMP(NOW(3)) * 1000),
+    (SELECT COALESCE(MAX(`server_seq`), 0) FROM `mh_off_orders`),
+    (SELECT COALESCE(MAX(`server_seq`), 0) FROM `mh_products`),
+    (SELECT COALESCE(MAX(`seq`), 0) FROM `sync_deletions`)
+);
+
+-- CreateIndex
+CREATE INDEX `mh_off_orders_server_seq_id_idx` ON `mh_off_orders`(`server_seq`, `id`);
+
+-- CreateIndex
+CREATE INDEX `mh_products_server_seq_id_idx` ON `mh_products`(`server_seq`, `id`);
+
+-- CreateIndex
+CREATE INDEX `sync_deletions_table_name_seq_idx` ON `sync_deletions`(`table_name`, `seq`);
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE `mh_off_orders` ADD COLUMN `device_order_no` VARCHAR(15) NULL;
+
+-- Existing orders: the number the device issued is all there is
+UPDATE `mh_off_orders` SET `device_order_no` = `order_no`;
+
+-- CreateTable
+CREATE TABLE `sync_order_sequences` (
+    `location_id` VARCHAR(36) NOT NULL,
+    `last_value` BIGINT NOT NULL,
+
+    PRIMARY KEY (`location_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `sync_order_number_reservations` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `device_id` VARCHAR(64) NOT NULL,
+    `location_id` VARCHAR(36) NOT NULL,
+    `first_value` BIGINT NOT NULL,
+    `last_value` BIGINT NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `sync_order_number_reservations_device_id_location_id_idx`(`device_id`, `location_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Continue each location's counter above the numeric numbers already in use
+INSERT INTO `sync_order_sequences` (`location_id`, `last_value`)
+SELECT `location_id`, MAX(CAST(`order_no` AS UNSIGNED))
+FROM `mh_off_orders`
+WHERE `order_no` REGEXP '^[0-9]{1,15}$'
+GROUP BY `location_id`;
+
+-- CreateIndex
+CREATE INDEX `mh_off_orders_location_id_order_no_idx` ON `mh_off_orders`(`location_id`, `order_no`);
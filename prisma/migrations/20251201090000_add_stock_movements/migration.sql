@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE `mh_stock_movements` (
+    `id` VARCHAR(36) NOT NULL,
+    `product_id` VARCHAR(36) NOT NULL,
+    `location_id` VARCHAR(36) NULL,
+    `movement_type` VARCHAR(16) NOT NULL,
+    `quantity` INTEGER NOT NULL,
+    `order_id` VARCHAR(36) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `created_seq` BIGINT NOT NULL DEFAULT 0,
+    `server_seq` BIGINT NOT NULL DEFAULT 0,
+
+    INDEX `mh_stock_movements_server_seq_id_idx`(`server_seq`, `id`),
+    INDEX `mh_stock_movements_product_id_idx`(`product_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Carry the current figures over as opening balances, so the ledger sums to
+-- today's stock_quantity. Server-side rows have no location and are never pulled.
+INSERT INTO `mh_stock_movements` (`id`, `product_id`, `location_id`, `movement_type`, `quantity`)
+SELECT UUID(), `id`, NULL, 'opening', `stock_quantity`
+FROM `mh_products`
+WHERE `stock_quantity` <> 0;
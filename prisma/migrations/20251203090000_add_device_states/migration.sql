@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE `sync_device_states` (
+    `device_id` VARCHAR(64) NOT NULL,
+    `app_version` VARCHAR(32) NULL,
+    `schema_version` INTEGER NULL,
+    `location_ids` TEXT NULL,
+    `last_pull_at` DATETIME(3) NULL,
+    `last_pull_status` VARCHAR(16) NULL,
+    `last_pull_error` VARCHAR(255) NULL,
+    `last_push_at` DATETIME(3) NULL,
+    `last_push_status` VARCHAR(16) NULL,
+    `last_push_error` VARCHAR(255) NULL,
+    `last_synced_at` DATETIME(3) NULL,
+    `updated_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `sync_device_states_last_synced_at_idx`(`last_synced_at`),
+    PRIMARY KEY (`device_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE `mh_off_order_items` (
+    `id` VARCHAR(36) NOT NULL,
+    `order_id` VARCHAR(36) NOT NULL,
+    `product_id` VARCHAR(36) NOT NULL,
+    `location_id` VARCHAR(36) NOT NULL,
+    `quantity` INTEGER NOT NULL,
+    `unit_price` DECIMAL(10, 2) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `created_seq` BIGINT NOT NULL DEFAULT 0,
+    `server_seq` BIGINT NOT NULL DEFAULT 0,
+
+    INDEX `mh_off_order_items_server_seq_id_idx`(`server_seq`, `id`),
+    INDEX `mh_off_order_items_order_id_idx`(`order_id`),
+    INDEX `mh_off_order_items_product_id_idx`(`product_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `sync_devices` ADD COLUMN `scope_seq` BIGINT NOT NULL DEFAULT 0;
@@ -1,8 +1,19 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from './prisma/prisma.module';
 import { SyncModule } from './sync/sync.module';
+import { DevicesModule } from './devices/devices.module';
+import { ProductsModule } from './products/products.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { HealthModule } from './health/health.module';
 
 @Module({
-  imports: [PrismaModule, SyncModule],
+  imports: [
+    PrismaModule,
+    DevicesModule,
+    SyncModule,
+    ProductsModule,
+    MetricsModule,
+    HealthModule,
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,7 @@
+export type DeviceRole = 'device' | 'admin';
+
+// Identity attached to the request by DeviceAuthGuard
+export interface AuthenticatedDevice {
+  id: string;
+  role: DeviceRole;
+}
@@ -0,0 +1,17 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import { AuthenticatedDevice } from './authenticated-device';
+
+export const ADMIN_ONLY_KEY = 'deviceAuth:adminOnly';
+
+// Restrict a route (or every route of a controller) to admin credentials
+export const AdminOnly = () => SetMetadata(ADMIN_ONLY_KEY, true);
+
+// The device authenticated by DeviceAuthGuard
+export const CurrentDevice = createParamDecorator(
+  (_: unknown, context: ExecutionContext): AuthenticatedDevice =>
+    context.switchToHttp().getRequest().device,
+);
@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { setRequestDevice } from '../logging/request-context';
+import { ADMIN_ONLY_KEY } from './device-auth.decorators';
+import { DevicesService } from './devices.service';
+
+// Authenticates every request with `Authorization: Bearer <api key>` and
+// attaches the device to `request.device`. Routes marked @AdminOnly() also
+// require the admin role.
+@Injectable()
+export class DeviceAuthGuard implements CanActivate {
+  constructor(
+    private readonly devicesService: DevicesService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const [scheme, apiKey] = String(request.headers.authorization ?? '').split(
+      ' ',
+    );
+    if (scheme !== 'Bearer' || !apiKey) {
+      throw new UnauthorizedException('Missing bearer API key');
+    }
+
+    const device = await this.devicesService.authenticate(apiKey);
+    if (!device) {
+      throw new UnauthorizedException('Invalid or revoked API key');
+    }
+    request.device = device;
+    setRequestDevice(device.id);
+
+    const adminOnly = this.reflector.getAllAndOverride<boolean>(
+      ADMIN_ONLY_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (adminOnly && device.role !== 'admin') {
+      throw new ForbiddenException('Admin credentials required');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,9 @@
+// Locations a device may read and write. Rows of location-scoped tables outside
+// `locationIds` are neither pulled to nor accepted from the device.
+export interface DeviceScope {
+  deviceId: string;
+  locationIds: string[];
+  // Change sequence of the last change to `locationIds`. Pulls from before it
+  // restart from scratch, as their rows were picked for the old locations.
+  scopeSeq?: number;
+}
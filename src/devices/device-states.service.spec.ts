@@ -0,0 +1,95 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DeviceStatesService } from './device-states.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { createFakePrisma, FakePrisma } from '../../test/fake-prisma';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('DeviceStatesService', () => {
+  let service: DeviceStatesService;
+  let fake: FakePrisma;
+
+  beforeEach(async () => {
+    fake = createFakePrisma();
+    fake.insert(
+      'sync_devices',
+      { id: 'till-1', name: 'Till 1', role: 'device', revoked_at: null },
+      { id: 'till-2', name: 'Till 2', role: 'device', revoked_at: null },
+      { id: 'till-3', name: 'Till 3', role: 'device', revoked_at: null },
+      { id: 'ops', name: 'Back office', role: 'admin', revoked_at: null },
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeviceStatesService,
+        { provide: PrismaService, useValue: fake.prisma },
+      ],
+    }).compile();
+
+    service = module.get<DeviceStatesService>(DeviceStatesService);
+  });
+
+  it('keeps the last successful sync when a later push fails', async () => {
+    const scope = { deviceId: 'till-1', locationIds: ['loc-1', 'loc-2'] };
+    await service.recordSync({
+      operation: 'pull',
+      outcome: 'success',
+      scope,
+      appVersion: '3.2.0',
+      schemaVersion: 2,
+    });
+    await service.recordSync({
+      operation: 'push',
+      outcome: 'error',
+      scope,
+      error: 'Rows changed on the server',
+    });
+
+    expect(fake.table('sync_device_states').get('till-1')).toMatchObject({
+      app_version: '3.2.0',
+      schema_version: 2,
+      location_ids: 'loc-1,loc-2',
+      last_pull_status: 'success',
+      last_push_status: 'error',
+      last_push_error: 'Rows changed on the server',
+      last_synced_at: expect.any(Date),
+    });
+  });
+
+  it('flags stale devices and failed pushes first', async () => {
+    const now = Date.now();
+    fake.insert('sync_device_states', {
+      device_id: 'till-1',
+      last_synced_at: new Date(now - HOUR_MS),
+      last_push_status: 'success',
+    });
+    fake.insert('sync_device_states', {
+      device_id: 'till-2',
+      last_synced_at: new Date(now - 7 * 24 * HOUR_MS),
+      last_push_status: 'success',
+    });
+    fake.insert('sync_device_states', {
+      device_id: 'till-3',
+      last_synced_at: new Date(now - HOUR_MS),
+      last_push_status: 'error',
+    });
+
+    const { items } = await service.list({ staleAfterHours: 24 });
+
+    expect(
+      items.map(({ device_id, stale, last_push_failed }) => ({
+        device_id,
+        stale,
+        last_push_failed,
+      })),
+    ).toEqual([
+      { device_id: 'till-2', stale: true, last_push_failed: false },
+      { device_id: 'till-3', stale: false, last_push_failed: true },
+      { device_id: 'till-1', stale: false, last_push_failed: false },
+    ]);
+    await expect(
+      service.list({ staleAfterHours: 24, flaggedOnly: true }),
+    ).resolves.toMatchObject({
+      items: [{ device_id: 'till-2' }, { device_id: 'till-3' }],
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import type { DeviceScope } from './device-scope';
+
+// A device is reported as stale when it has not completed a pull or push for this long
+const DEFAULT_STALE_AFTER_HOURS = Number(
+  process.env.DEVICE_STALE_AFTER_HOURS ?? 24,
+);
+
+const MAX_ERROR_LENGTH = 255;
+
+export interface DeviceSyncActivity {
+  operation: 'pull' | 'push';
+  outcome: 'success' | 'error';
+  scope: DeviceScope;
+  // From the X-App-Version header, if the client sends it
+  appVersion?: string;
+  schemaVersion?: number;
+  error?: string;
+}
+
+// 📟 Keeps sync_device_states up to date from sync traffic and reports devices
+// that stopped syncing or whose last push failed.
+@Injectable()
+export class DeviceStatesService {
+  private readonly logger = new Logger(DeviceStatesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Best effort: a failure to record is logged, never surfaced to the syncing device
+  async recordSync(activity: DeviceSyncActivity) {
+    const now = new Date();
+    const { operation, outcome } = activity;
+    const data: Record<string, any> = {
+      location_ids: activity.scope.locationIds.join(','),
+      [`last_${operation}_at`]: now,
+      [`last_${operation}_status`]: outcome,
+      [`last_${operation}_error`]:
+        outcome === 'error'
+          ? (activity.error ?? 'Unknown error').slice(0, MAX_ERROR_LENGTH)
+          : null,
+      ...(outcome === 'success' ? { last_synced_at: now } : {}),
+      // Keep the last known versions when a request doesn't carry them
+      ...(activity.appVersion !== undefined
+        ? { app_version: activity.appVersion.slice(0, 32) }
+        : {}),
+      ...(activity.schemaVersion !== undefined
+        ? { schema_version: activity.schemaVersion }
+        : {}),
+    };
+    try {
+      await this.prisma.sync_device_states.upsert({
+        where: { device_id: activity.scope.deviceId },
+        create: { device_id: activity.scope.deviceId, ...data },
+        update: data,
+      });
+    } catch (error) {
+      this.logger.warn({
+        message: 'Could not record device sync state',
+        operation,
+        error,
+      });
+    }
+  }
+
+  // 🕰️ Every registered device with its last sync activity. `stale` devices have
+  // not completed a pull or push within the window; flagged devices come first,
+  // longest silent first.
+  async list(
+    options: { staleAfterHours?: number; flaggedOnly?: boolean } = {},
+  ) {
+    const staleAfterHours =
+      options.staleAfterHours ?? DEFAULT_STALE_AFTER_HOURS;
+    const cutoff = new Date(Date.now() - staleAfterHours * 60 * 60 * 1000);
+
+    const [devices, states] = await Promise.all([
+      this.prisma.sync_devices.findMany({
+        select: { id: true, name: true, role: true, revoked_at: true },
+      }),
+      this.prisma.sync_device_states.findMany(),
+    ]);
+    const stateById = new Map(states.map((state) => [state.device_id, state]));
+
+    const items = devices
+      // Admin credentials don't sync
+      .filter((device) => device.role !== 'admin')
+      .map((device) => {
+        const state = stateById.get(device.id);
+        const revoked = device.revoked_at !== null;
+        const lastSyncedAt = state?.last_synced_at ?? null;
+        return {
+          device_id: device.id,
+          name: device.name,
+          revoked,
+          app_version: state?.app_version ?? null,
+          schema_version: state?.schema_version ?? null,
+          location_ids: state?.location_ids
+            ? state.location_ids.split(',')
+            : [],
+          last_pull_at: state?.last_pull_at ?? null,
+          last_pull_status: state?.last_pull_status ?? null,
+          last_pull_error: state?.last_pull_error ?? null,
+          last_push_at: state?.last_push_at ?? null,
+          last_push_status: state?.last_push_status ?? null,
+          last_push_error: state?.last_push_error ?? null,
+          last_synced_at: lastSyncedAt,
+          // Revoked devices are expected to go quiet
+          stale: !revoked && (!lastSyncedAt || lastSyncedAt < cutoff),
+          last_push_failed: state?.last_push_status === 'error',
+        };
+      })
+      .filter(
+        (item) => !options.flaggedOnly || item.stale || item.last_push_failed,
+      )
+      .sort((a, b) => {
+        const flagged = (item: typeof a) =>
+          item.stale || item.last_push_failed ? 0 : 1;
+        const synced = (item: typeof a) => item.last_synced_at?.getTime() ?? 0;
+        return flagged(a) - flagged(b) || synced(a) - synced(b);
+      });
+
+    return { stale_after_hours: staleAfterHours, items };
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  applyDecorators,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  SetMetadata,
+  UseInterceptors,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { catchError, concatMap, from, map, Observable, throwError } from 'rxjs';
+import type { AuthenticatedDevice } from './authenticated-device';
+import {
+  DeviceStatesService,
+  DeviceSyncActivity,
+} from './device-states.service';
+import { DevicesService } from './devices.service';
+
+export const SYNC_OPERATION_KEY = 'deviceSync:operation';
+
+type SyncOperation = DeviceSyncActivity['operation'];
+
+// X-App-Version as one version. A header sent more than once arrives as a list
+// or comma-joined; the first value counts.
+function parseAppVersion(
+  value: string | string[] | undefined,
+): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.split(',')[0].trim() || undefined;
+}
+
+// schema_version as the route's ParseIntPipe reads it, undefined when it would
+// reject it
+function parseSchemaVersion(value: unknown): number | undefined {
+  return typeof value === 'string' && /^-?\d+$/.test(value)
+    ? Number(value)
+    : undefined;
+}
+
+// 📟 Records the outcome of a pull or push in the device's sync state. Runs
+// around the route's pipes too, so a push rejected by body validation is
+// recorded as a failed push like one the service rejects.
+@Injectable()
+export class DeviceSyncStateInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(DeviceSyncStateInterceptor.name);
+
+  constructor(
+    private readonly devicesService: DevicesService,
+    private readonly deviceStatesService: DeviceStatesService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  intercept(
+    context: ExecutionContext,
+    next: CallHandler<unknown>,
+  ): Observable<unknown> {
+    const operation = this.reflector.get<SyncOperation | undefined>(
+      SYNC_OPERATION_KEY,
+      context.getHandler(),
+    );
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { device?: AuthenticatedDevice }>();
+    const device = request.device;
+    if (!operation || !device) {
+      return next.handle();
+    }
+
+    const record = (outcome: DeviceSyncActivity['outcome'], error?: string) =>
+      from(
+        this.record(device.id, {
+          operation,
+          outcome,
+          appVersion: parseAppVersion(request.headers['x-app-version']),
+          schemaVersion: parseSchemaVersion(request.query.schema_version),
+          error,
+        }),
+      );
+    return next.handle().pipe(
+      catchError((error: Error | undefined) =>
+        record('error', error?.message).pipe(
+          concatMap(() => throwError(() => error)),
+        ),
+      ),
+      concatMap((result) => record('success').pipe(map(() => result))),
+    );
+  }
+
+  // Best effort like recordSync: a device whose locations can't be read is
+  // logged, and the request keeps its own outcome
+  private async record(
+    deviceId: string,
+    activity: Omit<DeviceSyncActivity, 'scope'>,
+  ) {
+    try {
+      const scope = await this.devicesService.getScope(deviceId);
+      await this.deviceStatesService.recordSync({ ...activity, scope });
+    } catch (error) {
+      this.logger.warn({
+        message: 'Could not record device sync state',
+        operation: activity.operation,
+        error,
+      });
+    }
+  }
+}
+
+// Record the route's outcome as the device's last pull or push
+export const TrackSync = (operation: SyncOperation) =>
+  applyDecorators(
+    SetMetadata(SYNC_OPERATION_KEY, operation),
+    UseInterceptors(DeviceSyncStateInterceptor),
+  );
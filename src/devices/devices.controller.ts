@@ -0,0 +1,99 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AdminOnly } from './device-auth.decorators';
+import { DeviceAuthGuard } from './device-auth.guard';
+import { DeviceStatesService } from './device-states.service';
+import { DevicesService } from './devices.service';
+import { ListDeviceStatesQueryDto } from './dto/list-device-states-query.dto';
+import { RegisterDeviceDto } from './dto/register-device.dto';
+import { UpdateDeviceLocationsDto } from './dto/update-device-locations.dto';
+
+@ApiTags('devices')
+@ApiBearerAuth()
+@Controller('devices')
+@UseGuards(DeviceAuthGuard)
+@AdminOnly()
+@UsePipes(
+  new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true,
+  }),
+)
+export class DevicesController {
+  constructor(
+    private readonly devicesService: DevicesService,
+    private readonly deviceStatesService: DeviceStatesService,
+  ) {}
+
+  @Get('sync-states')
+  @ApiOperation({
+    summary:
+      'List devices with their last pull and push, flagging stale devices and failed pushes',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      '`stale` devices have not completed a sync within `stale_after_hours`; flagged devices are listed first',
+  })
+  async syncStates(@Query() query: ListDeviceStatesQueryDto) {
+    return this.deviceStatesService.list({
+      staleAfterHours: query.stale_after_hours,
+      flaggedOnly: query.flagged,
+    });
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Register a device and issue its API key' })
+  @ApiResponse({
+    status: 201,
+    description: 'Device created. `api_key` is only returned once',
+  })
+  @ApiResponse({ status: 409, description: 'Device id already exists' })
+  async register(@Body() dto: RegisterDeviceDto) {
+    return this.devicesService.register(dto);
+  }
+
+  @Post(':id/rotate')
+  @ApiOperation({
+    summary: 'Issue a new API key, invalidating the current one',
+  })
+  @ApiResponse({ status: 201, description: 'New `api_key`, returned once' })
+  @ApiResponse({ status: 404, description: 'Device not found' })
+  async rotate(@Param('id') id: string) {
+    return this.devicesService.rotate(id);
+  }
+
+  @Post(':id/revoke')
+  @ApiOperation({ summary: 'Revoke the device API key' })
+  @ApiResponse({ status: 404, description: 'Device not found' })
+  async revoke(@Param('id') id: string) {
+    return this.devicesService.revoke(id);
+  }
+
+  @Put(':id/locations')
+  @ApiOperation({ summary: 'Replace the locations the device may sync' })
+  @ApiResponse({ status: 404, description: 'Device not found' })
+  async setLocations(
+    @Param('id') id: string,
+    @Body() dto: UpdateDeviceLocationsDto,
+  ) {
+    return this.devicesService.setLocations(id, dto.location_ids);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DeviceAuthGuard } from './device-auth.guard';
+import { DeviceStatesService } from './device-states.service';
+import { DevicesController } from './devices.controller';
+import { DevicesService } from './devices.service';
+
+@Module({
+  controllers: [DevicesController],
+  providers: [DevicesService, DeviceStatesService, DeviceAuthGuard],
+  exports: [DevicesService, DeviceStatesService, DeviceAuthGuard],
+})
+export class DevicesModule {}
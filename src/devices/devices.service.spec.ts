@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DevicesService } from './devices.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { createFakePrisma, FakePrisma } from '../../test/fake-prisma';
+
+describe('DevicesService', () => {
+  let service: DevicesService;
+  let fake: FakePrisma;
+
+  beforeEach(async () => {
+    fake = createFakePrisma();
+    fake.insert('sync_sequence', { name: 'changes', value: 100 });
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DevicesService,
+        { provide: PrismaService, useValue: fake.prisma },
+      ],
+    }).compile();
+
+    service = module.get<DevicesService>(DevicesService);
+  });
+
+  it('authenticates a registered device and resolves its scope', async () => {
+    const { api_key } = await service.register({
+      id: 'till-1',
+      name: 'Till 1',
+      location_ids: ['loc-1'],
+    });
+
+    await expect(service.authenticate(api_key)).resolves.toEqual({
+      id: 'till-1',
+      role: 'device',
+    });
+    await expect(service.getScope('till-1')).resolves.toEqual({
+      deviceId: 'till-1',
+      locationIds: ['loc-1'],
+      scopeSeq: 0,
+    });
+    await expect(service.authenticate(`${api_key}x`)).resolves.toBeNull();
+  });
+
+  it('rejects revoked keys and the old key after rotation', async () => {
+    const { api_key: first } = await service.register({
+      id: 'till-1',
+      name: 'Till 1',
+      location_ids: [],
+    });
+
+    await service.revoke('till-1');
+    await expect(service.authenticate(first)).resolves.toBeNull();
+
+    const { api_key: second } = await service.rotate('till-1');
+    await expect(service.authenticate(first)).resolves.toBeNull();
+    await expect(service.authenticate(second)).resolves.toMatchObject({
+      id: 'till-1',
+    });
+  });
+
+  it('stamps a location change with the next change sequence', async () => {
+    await service.register({
+      id: 'till-1',
+      name: 'Till 1',
+      location_ids: ['loc-1'],
+    });
+
+    await service.setLocations('till-1', ['loc-2', 'loc-1']);
+    // The same locations in another order are no change
+    await service.setLocations('till-1', ['loc-1', 'loc-2']);
+
+    await expect(service.getScope('till-1')).resolves.toEqual({
+      deviceId: 'till-1',
+      locationIds: ['loc-2', 'loc-1'],
+      scopeSeq: 101,
+    });
+    expect(fake.rows('sync_sequence')).toEqual([
+      { name: 'changes', value: 101 },
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthenticatedDevice, DeviceRole } from './authenticated-device';
+import { DeviceScope } from './device-scope';
+import { RegisterDeviceDto } from './dto/register-device.dto';
+
+const hashApiKey = (apiKey: string) =>
+  createHash('sha256').update(apiKey).digest('hex');
+
+const hashesEqual = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+// Keys look like `<device id>.<secret>` so the device row can be found without
+// scanning; only the SHA-256 of the whole key is stored.
+const generateApiKey = (deviceId: string) =>
+  `${deviceId}.${randomBytes(32).toString('base64url')}`;
+
+@Injectable()
+export class DevicesService {
+  // Bootstrap credential for provisioning the first devices
+  private readonly adminKeyHash = process.env.SYNC_ADMIN_API_KEY
+    ? hashApiKey(process.env.SYNC_ADMIN_API_KEY)
+    : null;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // 🔑 Resolve an API key to its device. Unknown, malformed and revoked keys all yield null.
+  async authenticate(apiKey: string): Promise<AuthenticatedDevice | null> {
+    const hash = hashApiKey(apiKey);
+    if (this.adminKeyHash && hashesEqual(hash, this.adminKeyHash)) {
+      return { id: 'admin', role: 'admin' };
+    }
+
+    const separator = apiKey.indexOf('.');
+    if (separator <= 0) {
+      return null;
+    }
+    const device = await this.prisma.sync_devices.findUnique({
+      where: { id: apiKey.slice(0, separator) },
+    });
+    if (
+      !device ||
+      device.revoked_at ||
+      !hashesEqual(hash, device.api_key_hash)
+    ) {
+      return null;
+    }
+    return { id: device.id, role: device.role as DeviceRole };
+  }
+
+  // 📍 Locations the device is bound to. A device without bindings sees no
+  // location-scoped rows at all.
+  async getScope(deviceId: string): Promise<DeviceScope> {
+    const [device, bindings] = await Promise.all([
+      this.prisma.sync_devices.findUnique({
+        where: { id: deviceId },
+        select: { scope_seq: true },
+      }),
+      this.prisma.sync_device_locations.findMany({
+        where: { device_id: deviceId },
+        select: { location_id: true },
+      }),
+    ]);
+    return {
+      deviceId,
+      locationIds: bindings.map((binding) => binding.location_id),
+      scopeSeq: device ? Number(device.scope_seq) : 0,
+    };
+  }
+
+  // 📝 Create a device and return its API key. The key is not stored and cannot be shown again.
+  async register(dto: RegisterDeviceDto) {
+    const id = dto.id ?? randomUUID();
+    const apiKey = generateApiKey(id);
+    const role = dto.role ?? 'device';
+
+    await this.prisma.$transaction(async (tx) => {
+      if (await tx.sync_devices.findUnique({ where: { id } })) {
+        throw new ConflictException(`Device ${id} already exists`);
+      }
+      await tx.sync_devices.create({
+        data: { id, name: dto.name, role, api_key_hash: hashApiKey(apiKey) },
+      });
+      await tx.sync_device_locations.createMany({
+        data: dto.location_ids.map((location_id) => ({
+          device_id: id,
+          location_id,
+        })),
+      });
+    });
+
+    return {
+      id,
+      name: dto.name,
+      role,
+      location_ids: dto.location_ids,
+      api_key: apiKey,
+    };
+  }
+
+  // 🔄 Issue a new API key; the previous one stops working immediately
+  async rotate(id: string) {
+    await this.findOrFail(id);
+    const apiKey = generateApiKey(id);
+    await this.prisma.sync_devices.update({
+      where: { id },
+      data: {
+        api_key_hash: hashApiKey(apiKey),
+        rotated_at: new Date(),
+        revoked_at: null,
+      },
+    });
+    return { id, api_key: apiKey };
+  }
+
+  // ⛔ Block the device until its key is rotated
+  async revoke(id: string) {
+    await this.findOrFail(id);
+    const device = await this.prisma.sync_devices.update({
+      where: { id },
+      data: { revoked_at: new Date() },
+    });
+    return { id, revoked_at: device.revoked_at };
+  }
+
+  // 📍 Replace the device's location bindings. A change takes the next change
+  // sequence as the device's scope_seq, so its next pull starts over: rows already
+  // in an added location are older than its last_pulled_at, and rows of a removed
+  // one would otherwise stay on the device.
+  async setLocations(id: string, locationIds: string[]) {
+    await this.findOrFail(id);
+    await this.prisma.$transaction(async (tx) => {
+      const bindings = await tx.sync_device_locations.findMany({
+        where: { device_id: id },
+        select: { location_id: true },
+      });
+      const current = new Set(bindings.map((binding) => binding.location_id));
+      const wanted = new Set(locationIds);
+      if (
+        current.size === wanted.size &&
+        [...wanted].every((locationId) => current.has(locationId))
+      ) {
+        return;
+      }
+      // Same increment as a push: waits for pushes in flight, and no pull can
+      // end at this sequence with the old locations
+      const { value } = await tx.sync_sequence.update({
+        where: { name: 'changes' },
+        data: { value: { increment: 1 } },
+      });
+      await tx.sync_devices.update({
+        where: { id },
+        data: { scope_seq: value },
+      });
+      await tx.sync_device_locations.deleteMany({ where: { device_id: id } });
+      await tx.sync_device_locations.createMany({
+        data: locationIds.map((location_id) => ({
+          device_id: id,
+          location_id,
+        })),
+      });
+    });
+    return { id, location_ids: locationIds };
+  }
+
+  private async findOrFail(id: string) {
+    const device = await this.prisma.sync_devices.findUnique({ where: { id } });
+    if (!device) {
+      throw new NotFoundException(`Device ${id} not found`);
+    }
+    return device;
+  }
+}
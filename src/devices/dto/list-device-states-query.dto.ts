@@ -0,0 +1,28 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class ListDeviceStatesQueryDto {
+  @ApiPropertyOptional({
+    minimum: 1,
+    maximum: 8760,
+    description:
+      'Flag devices without a completed pull or push in this many hours. Defaults to DEVICE_STALE_AFTER_HOURS (24)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(8760)
+  stale_after_hours?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only devices that are stale or whose last push failed',
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  flagged?: boolean;
+}
@@ -0,0 +1,44 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import type { DeviceRole } from '../authenticated-device';
+
+export class RegisterDeviceDto {
+  @ApiPropertyOptional({
+    maxLength: 64,
+    description: 'Device id; generated when omitted',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]+$/, {
+    message: 'id may only contain letters, digits, "_" and "-"',
+  })
+  @MaxLength(64)
+  id?: string;
+
+  @ApiProperty({ maxLength: 255, example: 'Store 12 - Till 3' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ enum: ['device', 'admin'], default: 'device' })
+  @IsOptional()
+  @IsIn(['device', 'admin'])
+  role?: DeviceRole;
+
+  @ApiProperty({ type: [String], description: 'Locations the device may sync' })
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  @MaxLength(36, { each: true })
+  location_ids: string[];
+}
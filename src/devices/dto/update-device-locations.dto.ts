@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsString, MaxLength } from 'class-validator';
+
+export class UpdateDeviceLocationsDto {
+  @ApiProperty({ type: [String] })
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  @MaxLength(36, { each: true })
+  location_ids: string[];
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  ServiceUnavailableException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { DeviceAuthGuard } from '../devices/device-auth.guard';
+import { AdminOnly } from '../devices/device-auth.decorators';
+import { HealthService } from './health.service';
+
+// Probes for orchestrators and load balancers: unauthenticated and cheap.
+// /sync/health remains for devices checking their own connectivity.
+@ApiTags('health')
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  @ApiOperation({
+    summary: 'Liveness probe: the process is up and serving requests',
+  })
+  @ApiResponse({ status: 200, description: 'Alive' })
+  live() {
+    return { status: 'ok' };
+  }
+
+  @Get('ready')
+  @ApiOperation({ summary: 'Readiness probe: the database is reachable' })
+  @ApiResponse({ status: 200, description: 'Ready to serve sync traffic' })
+  @ApiResponse({ status: 503, description: 'Database unreachable or too slow' })
+  async ready() {
+    const database = await this.healthService.checkDatabase();
+    if (!database.ok) {
+      throw new ServiceUnavailableException({
+        status: 'unavailable',
+        checks: { database: 'down' },
+        error: database.error,
+      });
+    }
+    return { status: 'ready', checks: { database: 'up' } };
+  }
+
+  @Get('schema')
+  @UseGuards(DeviceAuthGuard)
+  @AdminOnly()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Compare database columns with prisma/schema.prisma and the startup DDL (admin)',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Drift report; `status` is `drift` when any column is missing or differs',
+  })
+  @ApiResponse({ status: 403, description: 'Admin credentials required' })
+  schema() {
+    return this.healthService.schemaDrift();
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { DevicesModule } from '../devices/devices.module';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+
+@Module({
+  imports: [DevicesModule],
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
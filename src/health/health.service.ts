@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { createTableStatements } from '../prisma/table-ddl';
+import {
+  ColumnShape,
+  diffTableShapes,
+  normalizeColumnType,
+  parseCreateTable,
+  parsePrismaSchema,
+  SchemaDriftIssue,
+  TableShapes,
+} from './schema-drift';
+
+// A readiness probe that hangs is as bad as one that fails
+const READY_TIMEOUT_MS = Number(process.env.HEALTH_READY_TIMEOUT_MS ?? 2000);
+
+const PRISMA_SCHEMA_PATH =
+  process.env.PRISMA_SCHEMA_PATH ??
+  join(process.cwd(), 'prisma', 'schema.prisma');
+
+export interface SchemaDriftReport {
+  status: 'ok' | 'drift' | 'skipped';
+  reason?: string;
+  issues: SchemaDriftIssue[];
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+@Injectable()
+export class HealthService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // 🩺 Whether the database answers a trivial query in time
+  async checkDatabase(): Promise<{ ok: boolean; error?: string }> {
+    try {
+      await withTimeout(
+        this.prisma.$queryRawUnsafe('SELECT 1'),
+        READY_TIMEOUT_MS,
+      );
+      return { ok: true };
+    } catch (error) {
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // 🔍 Compare the live columns with prisma/schema.prisma and with the DDL
+  // PrismaService.ensureTableExists runs, so the two cannot drift apart unnoticed
+  async schemaDrift(): Promise<SchemaDriftReport> {
+    if (this.prisma.dialect.name !== 'mysql') {
+      return {
+        status: 'skipped',
+        reason:
+          'The schema drift check reads information_schema and supports MySQL only',
+        issues: [],
+      };
+    }
+
+    const fromSchema = parsePrismaSchema(
+      await readFile(PRISMA_SCHEMA_PATH, 'utf8'),
+    );
+    const fromDdl: TableShapes = new Map(
+      createTableStatements().map(({ name, ddl }) => [
+        name,
+        parseCreateTable(ddl),
+      ]),
+    );
+    const live = await this.liveTableShapes([
+      ...new Set([...fromSchema.keys(), ...fromDdl.keys()]),
+    ]);
+
+    const issues = [
+      ...diffTableShapes(fromSchema, live, 'schema.prisma'),
+      ...diffTableShapes(fromDdl, live, 'ensureTableExists'),
+    ];
+    return { status: issues.length > 0 ? 'drift' : 'ok', issues };
+  }
+
+  private async liveTableShapes(tableNames: string[]): Promise<TableShapes> {
+    const rows = await this.prisma.$queryRawUnsafe<
+      {
+        table_name: string;
+        column_name: string;
+        column_type: string;
+        is_nullable: string;
+      }[]
+    >(
+      `SELECT TABLE_NAME AS table_name, COLUMN_NAME AS column_name, COLUMN_TYPE AS column_type, IS_NULLABLE AS is_nullable
+       FROM information_schema.COLUMNS
+       WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME IN (${tableNames.map(() => '?').join(', ')})`,
+      ...tableNames,
+    );
+
+    const tables: TableShapes = new Map();
+    for (const row of rows) {
+      const columns =
+        tables.get(row.table_name) ?? new Map<string, ColumnShape>();
+      columns.set(row.column_name, {
+        type: normalizeColumnType(row.column_type),
+        nullable: row.is_nullable === 'YES',
+      });
+      tables.set(row.table_name, columns);
+    }
+    return tables;
+  }
+}
@@ -0,0 +1,90 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createTableStatements } from '../prisma/table-ddl';
+import {
+  diffTableShapes,
+  parseCreateTable,
+  parsePrismaSchema,
+  TableShapes,
+} from './schema-drift';
+
+const schemaShapes = () =>
+  parsePrismaSchema(
+    readFileSync(join(__dirname, '../../prisma/schema.prisma'), 'utf8'),
+  );
+
+const ddlShapes = (): TableShapes =>
+  new Map(
+    createTableStatements().map(({ name, ddl }) => [
+      name,
+      parseCreateTable(ddl),
+    ]),
+  );
+
+describe('schema drift', () => {
+  it('finds no drift between schema.prisma and the startup DDL', () => {
+    expect(schemaShapes().get('mh_products')?.get('price')).toEqual({
+      type: 'decimal(10,2)',
+      nullable: false,
+    });
+    expect(
+      diffTableShapes(schemaShapes(), ddlShapes(), 'schema.prisma'),
+    ).toEqual([]);
+    expect(
+      diffTableShapes(ddlShapes(), schemaShapes(), 'ensureTableExists'),
+    ).toEqual([]);
+  });
+
+  it('reports missing, mismatched and unexpected columns', () => {
+    const expected = parsePrismaSchema(`
+model sync_sequence {
+  name  String @id @db.VarChar(32)
+  value BigInt
+  note  String?
+}
+`);
+    const live: TableShapes = new Map([
+      [
+        'sync_sequence',
+        new Map([
+          ['name', { type: 'varchar(64)', nullable: false }],
+          ['value', { type: 'bigint', nullable: true }],
+          ['legacy', { type: 'int', nullable: true }],
+        ]),
+      ],
+    ]);
+
+    expect(diffTableShapes(expected, live, 'schema.prisma')).toEqual([
+      {
+        table: 'sync_sequence',
+        column: 'name',
+        source: 'schema.prisma',
+        problem: 'type',
+        expected: 'varchar(32)',
+        actual: 'varchar(64)',
+      },
+      {
+        table: 'sync_sequence',
+        column: 'value',
+        source: 'schema.prisma',
+        problem: 'nullability',
+        expected: 'NOT NULL',
+        actual: 'NULL',
+      },
+      {
+        table: 'sync_sequence',
+        column: 'note',
+        source: 'schema.prisma',
+        problem: 'missing_column',
+        expected: 'varchar(191)',
+      },
+      {
+        table: 'sync_sequence',
+        column: 'legacy',
+        source: 'schema.prisma',
+        problem: 'unexpected_column',
+        actual: 'int',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+// Compares table definitions column by column. Types are compared in MySQL's
+// notation (information_schema.COLUMNS.COLUMN_TYPE), so Prisma scalars and
+// native type attributes are translated first.
+
+export interface ColumnShape {
+  type: string;
+  nullable: boolean;
+}
+
+// Table name -> column name -> shape
+export type TableShapes = Map<string, Map<string, ColumnShape>>;
+
+export type SchemaSource = 'schema.prisma' | 'ensureTableExists';
+
+export interface SchemaDriftIssue {
+  table: string;
+  column: string | null;
+  // Definition the database was compared against
+  source: SchemaSource;
+  problem:
+    | 'missing_table'
+    | 'missing_column'
+    | 'unexpected_column'
+    | 'type'
+    | 'nullability';
+  expected?: string;
+  actual?: string;
+}
+
+// Column type as MySQL reports it: lower case, no spaces, no integer display
+// widths (MySQL 8 drops them) and no zero fractional-second precision
+export function normalizeColumnType(type: string): string {
+  const normalized = type
+    .toLowerCase()
+    .replace(/\s+unsigned$/, '')
+    .replace(/\s+/g, '');
+  if (normalized === 'boolean' || normalized === 'bool') {
+    return 'tinyint(1)';
+  }
+  if (normalized === 'integer') {
+    return 'int';
+  }
+  return normalized
+    .replace(/^(smallint|mediumint|int|bigint)\(\d+\)$/, '$1')
+    .replace(/^(time|datetime|timestamp)\(0\)$/, '$1');
+}
+
+// MySQL column type Prisma uses for a scalar without a @db attribute
+const PRISMA_DEFAULT_TYPES: Record<string, string> = {
+  String: 'varchar(191)',
+  Int: 'int',
+  BigInt: 'bigint',
+  Boolean: 'tinyint(1)',
+  DateTime: 'datetime(3)',
+  Decimal: 'decimal(65,30)',
+  Float: 'double',
+  Json: 'json',
+  Bytes: 'longblob',
+};
+
+// Scalar columns of every model in a Prisma schema (relation fields skipped)
+export function parsePrismaSchema(schema: string): TableShapes {
+  const tables: TableShapes = new Map();
+  const modelPattern = /^model\s+(\w+)\s*\{([\s\S]*?)^\}/gm;
+  for (const [, model, body] of schema.matchAll(modelPattern)) {
+    const columns = new Map<string, ColumnShape>();
+    for (const line of body.split('\n')) {
+      const field = /^\s*(\w+)\s+(\w+)(\?|\[\])?(.*)$/.exec(line);
+      if (!field || PRISMA_DEFAULT_TYPES[field[2]] === undefined) {
+        continue;
+      }
+      const [, name, scalar, modifier, attributes] = field;
+      const native = /@db\.(\w+)(\([^)]*\))?/.exec(attributes);
+      columns.set(name, {
+        type: normalizeColumnType(
+          native
+            ? `${native[1]}${native[2] ?? ''}`
+            : PRISMA_DEFAULT_TYPES[scalar],
+        ),
+        nullable: modifier === '?',
+      });
+    }
+    tables.set(model, columns);
+  }
+  return tables;
+}
+
+// Columns of a CREATE TABLE statement; index and key lines are skipped
+export function parseCreateTable(ddl: string): Map<string, ColumnShape> {
+  const columns = new Map<string, ColumnShape>();
+  for (const line of ddl.split('\n')) {
+    const column = /^\s*`(\w+)`\s+(\w+(?:\s*\([^)]*\))?)(.*)$/.exec(line);
+    if (column) {
+      const [, name, type, rest] = column;
+      columns.set(name, {
+        type: normalizeColumnType(type),
+        nullable: !/\bNOT\s+NULL\b/i.test(rest),
+      });
+    }
+  }
+  return columns;
+}
+
+// Differences of `actual` from `expected`, for the tables in `expected`
+export function diffTableShapes(
+  expected: TableShapes,
+  actual: TableShapes,
+  source: SchemaSource,
+): SchemaDriftIssue[] {
+  const issues: SchemaDriftIssue[] = [];
+  for (const [table, expectedColumns] of expected) {
+    const actualColumns = actual.get(table);
+    if (!actualColumns) {
+      issues.push({ table, column: null, source, problem: 'missing_table' });
+      continue;
+    }
+    for (const [column, shape] of expectedColumns) {
+      const found = actualColumns.get(column);
+      if (!found) {
+        issues.push({
+          table,
+          column,
+          source,
+          problem: 'missing_column',
+          expected: shape.type,
+        });
+        continue;
+      }
+      if (found.type !== shape.type) {
+        issues.push({
+          table,
+          column,
+          source,
+          problem: 'type',
+          expected: shape.type,
+          actual: found.type,
+        });
+      }
+      if (found.nullable !== shape.nullable) {
+        const nullability = (nullable: boolean) =>
+          nullable ? 'NULL' : 'NOT NULL';
+        issues.push({
+          table,
+          column,
+          source,
+          problem: 'nullability',
+          expected: nullability(shape.nullable),
+          actual: nullability(found.nullable),
+        });
+      }
+    }
+    for (const [column, shape] of actualColumns) {
+      if (!expectedColumns.has(column)) {
+        issues.push({
+          table,
+          column,
+          source,
+          problem: 'unexpected_column',
+          actual: shape.type,
+        });
+      }
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,69 @@
+import { JsonLogger } from './json-logger';
+import { requestContextMiddleware, setRequestDevice } from './request-context';
+
+describe('JsonLogger', () => {
+  let lines: Record<string, any>[];
+  let logger: JsonLogger;
+
+  beforeEach(() => {
+    lines = [];
+    logger = new JsonLogger((line) => lines.push(JSON.parse(line)));
+    logger.setLogLevels(['log', 'warn', 'error']);
+  });
+
+  it('writes object messages as redacted fields', () => {
+    logger.log(
+      {
+        message: 'Push applied',
+        seq: BigInt(7),
+        changes: {
+          created: [{ id: 'o1', customer_id: 'c1', user_agent: 'x' }],
+        },
+      },
+      'SyncService',
+    );
+
+    expect(lines).toEqual([
+      expect.objectContaining({
+        level: 'log',
+        context: 'SyncService',
+        message: 'Push applied',
+        seq: '7',
+        changes: {
+          created: [
+            { id: 'o1', customer_id: '[redacted]', user_agent: '[redacted]' },
+          ],
+        },
+      }),
+    ]);
+  });
+
+  it('skips levels that are not enabled', () => {
+    logger.debug({ message: 'Push payload' }, 'SyncService');
+    logger.warn('Conflicting rows', 'SyncService');
+
+    expect(lines.map((line) => String(line.level))).toEqual(['warn']);
+  });
+
+  it('tags lines with the request id and device', (done) => {
+    const response = { setHeader: jest.fn() };
+    requestContextMiddleware(
+      { headers: { 'x-request-id': 'req-1' } } as any,
+      response as any,
+      () => {
+        setRequestDevice('till-1');
+        logger.log('Pull served', 'SyncService');
+
+        expect(response.setHeader).toHaveBeenCalledWith(
+          'x-request-id',
+          'req-1',
+        );
+        expect(lines[0]).toMatchObject({
+          requestId: 'req-1',
+          deviceId: 'till-1',
+        });
+        done();
+      },
+    );
+  });
+});
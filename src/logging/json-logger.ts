@@ -0,0 +1,101 @@
+import { LoggerService, LogLevel } from '@nestjs/common';
+import { getRequestContext } from './request-context';
+import { redact, redactedFields } from './redact';
+
+// Most to least verbose; LOG_LEVEL enables its level and everything after it
+const LOG_LEVELS: LogLevel[] = [
+  'verbose',
+  'debug',
+  'log',
+  'warn',
+  'error',
+  'fatal',
+];
+
+export function enabledLogLevels(level = process.env.LOG_LEVEL): LogLevel[] {
+  const index = LOG_LEVELS.indexOf((level ?? 'log') as LogLevel);
+  return LOG_LEVELS.slice(index === -1 ? LOG_LEVELS.indexOf('log') : index);
+}
+
+// Nest logger writing one JSON object per line, tagged with the request's
+// correlation id and device. Object messages are merged into the line as
+// fields, after redaction; Logger instances pass their context last.
+//
+//   logger.log({ message: 'Push applied', durationMs: 12 })
+//   => {"time":"...","level":"log","context":"SyncService","requestId":"...",
+//       "deviceId":"till-1","message":"Push applied","durationMs":12}
+export class JsonLogger implements LoggerService {
+  private levels = new Set(enabledLogLevels());
+  private readonly redactedFields = redactedFields();
+
+  constructor(
+    private readonly write: (line: string) => void = (line) =>
+      process.stdout.write(`${line}\n`),
+  ) {}
+
+  log(message: unknown, ...params: unknown[]) {
+    this.print('log', message, params);
+  }
+
+  error(message: unknown, ...params: unknown[]) {
+    this.print('error', message, params);
+  }
+
+  warn(message: unknown, ...params: unknown[]) {
+    this.print('warn', message, params);
+  }
+
+  debug(message: unknown, ...params: unknown[]) {
+    this.print('debug', message, params);
+  }
+
+  verbose(message: unknown, ...params: unknown[]) {
+    this.print('verbose', message, params);
+  }
+
+  fatal(message: unknown, ...params: unknown[]) {
+    this.print('fatal', message, params);
+  }
+
+  setLogLevels(levels: LogLevel[]) {
+    this.levels = new Set(levels);
+  }
+
+  isLevelEnabled(level: LogLevel) {
+    return this.levels.has(level);
+  }
+
+  private print(level: LogLevel, message: unknown, params: unknown[]) {
+    if (!this.levels.has(level)) {
+      return;
+    }
+    const rest = [...params];
+    const context =
+      rest.length > 0 && typeof rest[rest.length - 1] === 'string'
+        ? (rest.pop() as string)
+        : undefined;
+    const request = getRequestContext();
+    const line: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      context,
+      requestId: request?.requestId,
+      deviceId: request?.deviceId,
+    };
+
+    const fields = redact(message, this.redactedFields);
+    if (fields && typeof fields === 'object' && !Array.isArray(fields)) {
+      Object.assign(line, fields);
+    } else {
+      line.message = fields;
+    }
+    // Logger.error(message, stack) passes the stack as a string
+    if (level === 'error' && typeof rest[0] === 'string') {
+      line.stack = rest.shift();
+    }
+    if (rest.length > 0) {
+      line.details = rest.map((param) => redact(param, this.redactedFields));
+    }
+    this.write(JSON.stringify(line));
+  }
+}
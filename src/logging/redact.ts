@@ -0,0 +1,47 @@
+// Fields masked wherever they appear in logged objects, at any depth. Extend or
+// replace the list with LOG_REDACT_FIELDS (comma separated).
+const DEFAULT_REDACTED_FIELDS = [
+  'customer_id',
+  'ip_address',
+  'user_agent',
+  'authorization',
+  'api_key',
+];
+
+export const REDACTED = '[redacted]';
+
+export function redactedFields(
+  setting = process.env.LOG_REDACT_FIELDS,
+): Set<string> {
+  const fields = setting
+    ? setting.split(',').map((field) => field.trim().toLowerCase())
+    : DEFAULT_REDACTED_FIELDS;
+  return new Set(fields.filter(Boolean));
+}
+
+// Copy of `value` safe to log: redacted fields masked, BigInts as strings,
+// Dates and Decimals in their JSON form and errors as message and stack
+export function redact(value: unknown, fields: Set<string>): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof (value as { toJSON?: unknown })?.toJSON === 'function') {
+    return (value as { toJSON(): unknown }).toJSON();
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, fields));
+  }
+  if (value && typeof value === 'object') {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = fields.has(key.toLowerCase())
+        ? REDACTED
+        : redact(item, fields);
+    }
+    return copy;
+  }
+  return value;
+}
@@ -0,0 +1,45 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+
+// Per-request values attached to every log line written while handling it
+export interface RequestContext {
+  requestId: string;
+  deviceId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Caller-supplied ids are kept (so a device can correlate its own logs) unless
+// they could garble a log line
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+// Called by DeviceAuthGuard once the device is known
+export function setRequestDevice(deviceId: string) {
+  const context = storage.getStore();
+  if (context) {
+    context.deviceId = deviceId;
+  }
+}
+
+// Express middleware: run the rest of the request inside a new context with a
+// correlation id, taken from X-Request-Id or generated, and echoed in the response
+export function requestContextMiddleware(
+  request: Request,
+  response: Response,
+  next: NextFunction,
+) {
+  const header = request.headers[REQUEST_ID_HEADER];
+  const requestId =
+    typeof header === 'string' && VALID_REQUEST_ID.test(header)
+      ? header
+      : randomUUID();
+  response.setHeader(REQUEST_ID_HEADER, requestId);
+  storage.run({ requestId }, next);
+}
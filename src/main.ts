@@ -1,9 +1,15 @@
+import { Logger } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { JsonLogger } from './logging/json-logger';
+import { requestContextMiddleware } from './logging/request-context';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // JSON lines on stdout; LOG_LEVEL=debug adds (redacted) record payloads
+  const app = await NestFactory.create(AppModule, { logger: new JsonLogger() });
+  // Gives every request a correlation id before guards and handlers run
+  app.use(requestContextMiddleware);
 
   // Swagger configuration
   const config = new DocumentBuilder()
@@ -11,14 +17,26 @@ async function bootstrap() {
     .setDescription('API for syncing data between client and server')
     .setVersion('1.0')
     .addTag('sync', 'Data synchronization endpoints')
+    .addTag('devices', 'Device registration and credentials (admin)')
+    .addTag('products', 'Product catalog management (admin)')
+    .addTag('metrics', 'Prometheus metrics')
+    .addTag('health', 'Liveness, readiness and schema diagnostics')
+    .addBearerAuth({
+      type: 'http',
+      scheme: 'bearer',
+      description: 'Device or admin API key',
+    })
     .build();
-  
+
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('api', app, document);
 
   const port = process.env.PORT ?? 3000;
   await app.listen(port);
-  console.log(`🚀 Application is running on: http://localhost:${port}`);
-  console.log(`📚 Swagger documentation available at: http://localhost:${port}/api`);
+  const logger = new Logger('Bootstrap');
+  logger.log(`Application is running on: http://localhost:${port}`);
+  logger.log(
+    `Swagger documentation available at: http://localhost:${port}/api`,
+  );
 }
 bootstrap();
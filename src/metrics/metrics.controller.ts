@@ -0,0 +1,22 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Registry } from 'prom-client';
+import { SyncMetrics } from './sync-metrics';
+
+// Unauthenticated so Prometheus can scrape it; only reachable from the internal
+// network in deployments
+@ApiTags('metrics')
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly syncMetrics: SyncMetrics) {}
+
+  @Get()
+  @Header('Content-Type', Registry.PROMETHEUS_CONTENT_TYPE)
+  @ApiOperation({
+    summary: 'Sync and process metrics in Prometheus text format',
+  })
+  @ApiResponse({ status: 200, description: 'Prometheus exposition format' })
+  metrics(): Promise<string> {
+    return this.syncMetrics.metrics();
+  }
+}
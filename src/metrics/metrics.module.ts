@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { MetricsController } from './metrics.controller';
+import { SyncMetrics } from './sync-metrics';
+
+@Module({
+  controllers: [MetricsController],
+  providers: [SyncMetrics],
+  exports: [SyncMetrics],
+})
+export class MetricsModule {}
@@ -0,0 +1,150 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import {
+  collectDefaultMetrics,
+  Counter,
+  exponentialBuckets,
+  Histogram,
+  Registry,
+} from 'prom-client';
+import { getSyncTable } from '../sync/tables';
+
+export type SyncOperation = 'push' | 'pull';
+export type SyncRequestOutcome = 'success' | 'replayed' | 'error';
+// 'write' covers device pushes and server-side writes (admin API), which share syncTable;
+// 'snapshot' is the server reading every table for a snapshot build
+export type SyncTableOperation = 'pull' | 'write' | 'snapshot';
+
+export interface SyncRowCounts {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+// Table label for a name that may come from a client; unregistered names are
+// folded together so a bad payload cannot create unbounded label values
+const tableLabel = (name: string) => (getSyncTable(name) ? name : 'unknown');
+
+// 📈 Prometheus metrics for sync traffic, recorded by SyncService (per request
+// and per registered table) and the push validation pipe; served on /metrics.
+@Injectable()
+export class SyncMetrics implements OnModuleInit {
+  readonly registry = new Registry();
+
+  private readonly requests = new Counter({
+    name: 'sync_requests_total',
+    help: 'Push and pull requests by outcome',
+    labelNames: ['operation', 'outcome'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly requestDuration = new Histogram({
+    name: 'sync_request_duration_seconds',
+    help: 'Push and pull request duration',
+    labelNames: ['operation'] as const,
+    buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+    registers: [this.registry],
+  });
+
+  private readonly tableDuration = new Histogram({
+    name: 'sync_table_duration_seconds',
+    help: 'Time spent reading (pull, snapshot) or writing (write) one table within a request',
+    labelNames: ['operation', 'table'] as const,
+    buckets: [0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  private readonly rows = new Counter({
+    name: 'sync_rows_total',
+    help: 'Rows pulled or written, by table and kind of change. Writes count when applied, before their transaction commits',
+    labelNames: ['operation', 'table', 'change'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly conflicts = new Counter({
+    name: 'sync_conflicts_total',
+    help: 'Pushed rows changed on the server since the client last pulled',
+    labelNames: ['table', 'policy'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly validationRejections = new Counter({
+    name: 'sync_validation_rejections_total',
+    help: 'Validation errors in rejected push payloads',
+    labelNames: ['table'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly rawSqlFallbacks = new Counter({
+    name: 'sync_raw_sql_fallback_total',
+    help: 'Table writes done with raw SQL because the Prisma model was missing',
+    labelNames: ['table'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly payloadBytes = new Histogram({
+    name: 'sync_payload_bytes',
+    help: 'Size of push bodies and pull responses as JSON',
+    labelNames: ['operation'] as const,
+    // 1 KiB to 64 MiB
+    buckets: exponentialBuckets(1024, 4, 9),
+    registers: [this.registry],
+  });
+
+  onModuleInit() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  // Starts timing a push or pull; call the result once with the outcome
+  startRequest(operation: SyncOperation) {
+    const end = this.requestDuration.startTimer({ operation });
+    return (outcome: SyncRequestOutcome) => {
+      end();
+      this.requests.inc({ operation, outcome });
+    };
+  }
+
+  // Starts timing one table's share of a request; call the result when done
+  startTable(operation: SyncTableOperation, table: string) {
+    const end = this.tableDuration.startTimer({ operation, table });
+    return () => {
+      end();
+    };
+  }
+
+  recordRows(
+    operation: SyncTableOperation,
+    table: string,
+    counts: SyncRowCounts,
+  ) {
+    for (const change of ['created', 'updated', 'deleted'] as const) {
+      if (counts[change] > 0) {
+        this.rows.inc({ operation, table, change }, counts[change]);
+      }
+    }
+  }
+
+  recordConflicts(table: string, policy: string, count: number) {
+    this.conflicts.inc({ table, policy }, count);
+  }
+
+  recordValidationRejections(errors: { table: string }[]) {
+    for (const error of errors) {
+      this.validationRejections.inc({ table: tableLabel(error.table) });
+    }
+  }
+
+  recordRawSqlFallback(table: string) {
+    this.rawSqlFallbacks.inc({ table });
+  }
+
+  recordPayloadSize(operation: SyncOperation, payload: unknown) {
+    this.payloadBytes.observe(
+      { operation },
+      Buffer.byteLength(JSON.stringify(payload) ?? ''),
+    );
+  }
+
+  metrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
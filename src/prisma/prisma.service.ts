@@ -1,10 +1,15 @@
 import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
+import { resolveSqlDialect } from './sql-dialect';
+import { createTableStatements } from './table-ddl';
 
 @Injectable()
 export class PrismaService extends PrismaClient implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(PrismaService.name);
 
+  // SQL dialect for raw queries, chosen from DATABASE_URL (file: URLs are SQLite)
+  readonly dialect = resolveSqlDialect(process.env.DATABASE_URL);
+
   // Helper to serialize BigInt values for JSON.stringify
   private serializeBigInt(obj: any): any {
     if (obj === null || obj === undefined) {
@@ -35,7 +40,11 @@ export class PrismaService extends PrismaClient implements OnModuleInit, OnModul
       this.logger.log('✅ Database connection established');
       
       // Verify connection with a simple query
-      const result = await this.$queryRawUnsafe('SELECT 1 as connected, DATABASE() as db_name, USER() as db_user') as any[];
+      const result = await this.$queryRawUnsafe(
+        this.dialect.name === 'sqlite'
+          ? 'SELECT 1 as connected'
+          : 'SELECT 1 as connected, DATABASE() as db_name, USER() as db_user',
+      ) as any[];
       const serializedResult = this.serializeBigInt(result);
       this.logger.log('📊 Database connection verified:', JSON.stringify(serializedResult, null, 2));
       
@@ -52,37 +61,29 @@ export class PrismaService extends PrismaClient implements OnModuleInit, OnModul
   }
 
   private async ensureTableExists() {
-    // Ensure mh_off_orders table exists
-    await this.ensureTable('mh_off_orders', `
-      CREATE TABLE IF NOT EXISTS \`mh_off_orders\` (
-        \`id\` VARCHAR(36) NOT NULL,
-        \`location_id\` VARCHAR(36) NOT NULL,
-        \`customer_id\` VARCHAR(36) NULL,
-        \`order_no\` VARCHAR(15) NOT NULL,
-        \`order_type_id\` VARCHAR(36) NOT NULL,
-        \`order_date\` DATE NOT NULL,
-        \`order_time\` TIME(0) NOT NULL,
-        \`ip_address\` VARCHAR(40) NOT NULL,
-        \`user_agent\` VARCHAR(256) NOT NULL,
-        \`updated_at\` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
-        PRIMARY KEY (\`id\`)
-      ) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
-    `);
+    // The SQLite schema is created by `prisma db push` (prisma/sqlite/schema.prisma);
+    // the DDL below is MySQL only
+    if (this.dialect.name === 'sqlite') {
+      await this.seedChangeSequence();
+      return;
+    }
+
+    // Ensure every table exists: the synced tables, then the server's internal ones.
+    // sync_sequence starts at the current epoch milliseconds so last_pulled_at
+    // values issued before the sequence existed still compare correctly.
+    for (const { name, ddl } of createTableStatements()) {
+      await this.ensureTable(name, ddl);
+    }
+    await this.seedChangeSequence();
+  }
 
-    // Ensure mh_products table exists
-    await this.ensureTable('mh_products', `
-      CREATE TABLE IF NOT EXISTS \`mh_products\` (
-        \`id\` VARCHAR(36) NOT NULL,
-        \`product_code\` VARCHAR(50) NOT NULL,
-        \`product_name\` VARCHAR(255) NOT NULL,
-        \`description\` TEXT NULL,
-        \`price\` DECIMAL(10, 2) NOT NULL,
-        \`stock_quantity\` INT NOT NULL DEFAULT 0,
-        \`is_active\` BOOLEAN NOT NULL DEFAULT true,
-        \`updated_at\` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
-        PRIMARY KEY (\`id\`)
-      ) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
-    `);
+  // Seed the change sequence with the current epoch milliseconds (see above)
+  private async seedChangeSequence() {
+    await this.$executeRawUnsafe(
+      this.dialect.insertIgnore('sync_sequence', ['name', 'value']),
+      'changes',
+      Date.now(),
+    );
   }
 
   private async ensureTable(tableName: string, createTableSQL: string) {
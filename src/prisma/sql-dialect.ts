@@ -0,0 +1,108 @@
+// SQL that differs between the databases the sync server runs on. Raw queries
+// build their statements through this and always bind values as parameters.
+export interface SqlDialect {
+  name: 'mysql' | 'sqlite';
+  // Most bound parameters one statement may carry
+  maxParams: number;
+  // Quote a table or column name. Only ever called with names from the sync
+  // table registry or the schema, never with client input.
+  quote(identifier: string): string;
+  // INSERT of `rowCount` rows that updates `updateColumns` of rows whose
+  // `conflictColumn` already exists
+  upsert(
+    table: string,
+    columns: string[],
+    updateColumns: string[],
+    conflictColumn: string,
+    rowCount?: number,
+  ): string;
+  // INSERT of one row that is skipped when its key already exists
+  insertIgnore(table: string, columns: string[]): string;
+  // Parameter for a Date written to a DATE or TIME column, stored the way Prisma
+  // stores it through the models
+  temporalParam(value: Date, type: 'date' | 'time'): unknown;
+  // One row describing the connection: database_name, user, connection_id and
+  // server_time, null where the database has no such notion
+  connectionInfo: string;
+  // `name` of each table among `tableCount` bound names that exists
+  existingTables(tableCount: number): string;
+}
+
+const questionMarks = (count: number) =>
+  Array.from({ length: count }, () => '?').join(', ');
+
+const placeholders = (columns: string[]) => questionMarks(columns.length);
+
+const valueRows = (columns: string[], rowCount: number) =>
+  Array.from({ length: rowCount }, () => `(${placeholders(columns)})`).join(
+    ', ',
+  );
+
+const backtickQuote = (identifier: string) =>
+  `\`${identifier.replace(/`/g, '``')}\``;
+
+const doubleQuote = (identifier: string) =>
+  `"${identifier.replace(/"/g, '""')}"`;
+
+export const mysqlDialect: SqlDialect = {
+  name: 'mysql',
+  maxParams: 65535,
+  quote: backtickQuote,
+  upsert(table, columns, updateColumns, conflictColumn, rowCount = 1) {
+    const updates = updateColumns
+      .map(
+        (column) =>
+          `${backtickQuote(column)} = VALUES(${backtickQuote(column)})`,
+      )
+      .join(', ');
+    return `INSERT INTO ${backtickQuote(table)} (${columns.map(backtickQuote).join(', ')}) VALUES ${valueRows(columns, rowCount)} ON DUPLICATE KEY UPDATE ${updates}`;
+  },
+  insertIgnore(table, columns) {
+    return `INSERT IGNORE INTO ${backtickQuote(table)} (${columns.map(backtickQuote).join(', ')}) VALUES (${placeholders(columns)})`;
+  },
+  // The UTC calendar date / time of day
+  temporalParam(value, type) {
+    return type === 'date'
+      ? value.toISOString().slice(0, 10)
+      : value.toISOString().slice(11, 19);
+  },
+  connectionInfo:
+    'SELECT DATABASE() AS database_name, USER() AS user, CONNECTION_ID() AS connection_id, NOW() AS server_time',
+  existingTables(tableCount) {
+    return `SELECT TABLE_NAME AS name FROM information_schema.TABLES WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME IN (${questionMarks(tableCount)})`;
+  },
+};
+
+export const sqliteDialect: SqlDialect = {
+  name: 'sqlite',
+  // SQLITE_MAX_VARIABLE_NUMBER since SQLite 3.32
+  maxParams: 32766,
+  quote: doubleQuote,
+  upsert(table, columns, updateColumns, conflictColumn, rowCount = 1) {
+    const updates = updateColumns
+      .map(
+        (column) => `${doubleQuote(column)} = excluded.${doubleQuote(column)}`,
+      )
+      .join(', ');
+    return `INSERT INTO ${doubleQuote(table)} (${columns.map(doubleQuote).join(', ')}) VALUES ${valueRows(columns, rowCount)} ON CONFLICT (${doubleQuote(conflictColumn)}) DO UPDATE SET ${updates}`;
+  },
+  insertIgnore(table, columns) {
+    return `INSERT OR IGNORE INTO ${doubleQuote(table)} (${columns.map(doubleQuote).join(', ')}) VALUES (${placeholders(columns)})`;
+  },
+  // Every DateTime column is a full timestamp in the SQLite schema, which Prisma
+  // binds from the Date itself
+  temporalParam(value) {
+    return value;
+  },
+  // The database file stands in for the name; SQLite has no users or server connections
+  connectionInfo:
+    "SELECT file AS database_name, NULL AS user, NULL AS connection_id, datetime('now') AS server_time FROM pragma_database_list WHERE name = 'main'",
+  existingTables(tableCount) {
+    return `SELECT name FROM sqlite_master WHERE type = 'table' AND name IN (${questionMarks(tableCount)})`;
+  },
+};
+
+// The datasource URL decides the dialect, as it decides the Prisma schema (see prisma.config.ts)
+export function resolveSqlDialect(databaseUrl = ''): SqlDialect {
+  return databaseUrl.startsWith('file:') ? sqliteDialect : mysqlDialect;
+}
@@ -0,0 +1,144 @@
+import { buildCreateTableSql, SYNC_TABLES } from '../sync/tables';
+
+// A table PrismaService creates on startup when it is missing (MySQL only)
+export interface TableDdl {
+  name: string;
+  ddl: string;
+}
+
+// The server's own tables. Keep in step with prisma/schema.prisma; the
+// /health/schema diagnostic reports where the two disagree with the database.
+const INTERNAL_TABLES: TableDdl[] = [
+  // Tombstone log
+  {
+    name: 'sync_deletions',
+    ddl: `
+      CREATE TABLE IF NOT EXISTS \`sync_deletions\` (
+        \`id\` BIGINT NOT NULL AUTO_INCREMENT,
+        \`table_name\` VARCHAR(64) NOT NULL,
+        \`record_id\` VARCHAR(36) NOT NULL,
+        \`scope_value\` VARCHAR(36) NULL,
+        \`deleted_at\` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+        \`seq\` BIGINT NOT NULL DEFAULT 0,
+        INDEX \`sync_deletions_table_name_deleted_at_idx\` (\`table_name\`, \`deleted_at\`),
+        INDEX \`sync_deletions_table_name_seq_idx\` (\`table_name\`, \`seq\`),
+        PRIMARY KEY (\`id\`)
+      ) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+    `,
+  },
+  // Device location scope
+  {
+    name: 'sync_device_locations',
+    ddl: `
+      CREATE TABLE IF NOT EXISTS \`sync_device_locations\` (
+        \`device_id\` VARCHAR(64) NOT NULL,
+        \`location_id\` VARCHAR(36) NOT NULL,
+        PRIMARY KEY (\`device_id\`, \`location_id\`)
+      ) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+    `,
+  },
+  // Device credentials
+  {
+    name: 'sync_devices',
+    ddl: `
+      CREATE TABLE IF NOT EXISTS \`sync_devices\` (
+        \`id\` VARCHAR(64) NOT NULL,
+        \`name\` VARCHAR(255) NOT NULL,
+        \`role\` VARCHAR(16) NOT NULL DEFAULT 'device',
+        \`api_key_hash\` CHAR(64) NOT NULL,
+        \`revoked_at\` DATETIME(3) NULL,
+        \`rotated_at\` DATETIME(3) NULL,
+        \`created_at\` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+        \`scope_seq\` BIGINT NOT NULL DEFAULT 0,
+        PRIMARY KEY (\`id\`)
+      ) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+    `,
+  },
+  // Last sync activity per device
+  {
+    name: 'sync_device_states',
+    ddl: `
+      CREATE TABLE IF NOT EXISTS \`sync_device_states\` (
+        \`device_id\` VARCHAR(64) NOT NULL,
+        \`app_version\` VARCHAR(32) NULL,
+        \`schema_version\` INT NULL,
+        \`location_ids\` TEXT NULL,
+        \`last_pull_at\` DATETIME(3) NULL,
+        \`last_pull_status\` VARCHAR(16) NULL,
+        \`last_pull_error\` VARCHAR(255) NULL,
+        \`last_push_at\` DATETIME(3) NULL,
+        \`last_push_status\` VARCHAR(16) NULL,
+        \`last_push_error\` VARCHAR(255) NULL,
+        \`last_synced_at\` DATETIME(3) NULL,
+        \`updated_at\` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+        INDEX \`sync_device_states_last_synced_at_idx\` (\`last_synced_at\`),
+        PRIMARY KEY (\`device_id\`)
+      ) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+    `,
+  },
+  // Idempotent push log
+  {
+    name: 'sync_push_batches',
+    ddl: `
+      CREATE TABLE IF NOT EXISTS \`sync_push_batches\` (
+        \`device_id\` VARCHAR(64) NOT NULL,
+        \`batch_id\` VARCHAR(64) NOT NULL,
+        \`result\` TEXT NOT NULL,
+        \`created_at\` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+        \`expires_at\` DATETIME(3) NOT NULL,
+        INDEX \`sync_push_batches_expires_at_idx\` (\`expires_at\`),
+        PRIMARY KEY (\`device_id\`, \`batch_id\`)
+      ) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+    `,
+  },
+  // Canonical order number counters
+  {
+    name: 'sync_order_sequences',
+    ddl: `
+      CREATE TABLE IF NOT EXISTS \`sync_order_sequences\` (
+        \`location_id\` VARCHAR(36) NOT NULL,
+        \`last_value\` BIGINT NOT NULL,
+        PRIMARY KEY (\`location_id\`)
+      ) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+    `,
+  },
+  // Offline order number ranges
+  {
+    name: 'sync_order_number_reservations',
+    ddl: `
+      CREATE TABLE IF NOT EXISTS \`sync_order_number_reservations\` (
+        \`id\` BIGINT NOT NULL AUTO_INCREMENT,
+        \`device_id\` VARCHAR(64) NOT NULL,
+        \`location_id\` VARCHAR(36) NOT NULL,
+        \`first_value\` BIGINT NOT NULL,
+        \`last_value\` BIGINT NOT NULL,
+        \`created_at\` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+        INDEX \`sync_order_number_reservations_device_id_location_id_idx\` (\`device_id\`, \`location_id\`),
+        PRIMARY KEY (\`id\`)
+      ) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+    `,
+  },
+  // Server change counter
+  {
+    name: 'sync_sequence',
+    ddl: `
+      CREATE TABLE IF NOT EXISTS \`sync_sequence\` (
+        \`name\` VARCHAR(32) NOT NULL,
+        \`value\` BIGINT NOT NULL,
+        PRIMARY KEY (\`name\`)
+      ) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+    `,
+  },
+];
+
+// Every table the server needs: synced tables (DDL derived from the sync table
+// registry) first, then the internal ones
+export function createTableStatements(): TableDdl[] {
+  return [
+    ...SYNC_TABLES.map((table) => ({
+      name: table.name,
+      ddl: buildCreateTableSql(table),
+    })),
+    ...INTERNAL_TABLES,
+  ];
+}
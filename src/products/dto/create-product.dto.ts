@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+
+export class CreateProductDto {
+  @ApiProperty({ maxLength: 50, description: 'Unique across all products' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  product_code: string;
+
+  @ApiProperty({ maxLength: 255 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  product_name: string;
+
+  @ApiPropertyOptional({ type: 'string', nullable: true })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  description?: string | null;
+
+  // DECIMAL(10, 2)
+  @ApiProperty({ minimum: 0, maximum: 99999999.99 })
+  @IsNumber({ allowNaN: false, allowInfinity: false, maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(99999999.99)
+  price: number;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    default: 0,
+    description: 'Recorded as a stock adjustment for the difference',
+  })
+  @IsOptional()
+  @IsInt()
+  stock_quantity?: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
@@ -0,0 +1,5 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateProductDto } from './create-product.dto';
+
+// Only the fields present are changed. Set `is_active: false` to deactivate.
+export class UpdateProductDto extends PartialType(CreateProductDto) {}
@@ -0,0 +1,139 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AdminOnly } from '../devices/device-auth.decorators';
+import { DeviceAuthGuard } from '../devices/device-auth.guard';
+import { CreateProductDto } from './dto/create-product.dto';
+import { ListProductsQueryDto } from './dto/list-products-query.dto';
+import { UpdateProductDto } from './dto/update-product.dto';
+import { ProductsService } from './products.service';
+
+const MAX_IMPORT_BYTES = Number(
+  process.env.PRODUCT_IMPORT_MAX_BYTES ?? 5 * 1024 * 1024,
+);
+
+@ApiTags('products')
+@ApiBearerAuth()
+@Controller('products')
+@UseGuards(DeviceAuthGuard)
+@AdminOnly()
+@UsePipes(
+  new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true,
+  }),
+)
+export class ProductsController {
+  constructor(private readonly productsService: ProductsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List products' })
+  async list(@Query() query: ListProductsQueryDto) {
+    return this.productsService.list(query);
+  }
+
+  @Get('reports/negative-stock')
+  @ApiOperation({
+    summary: 'Products whose reconciled stock is negative',
+    description:
+      'Stock is the sum of all stock movements. `locations` breaks it down by the location that recorded them',
+  })
+  async negativeStock() {
+    return this.productsService.negativeStock();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a product' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async findOne(@Param('id') id: string) {
+    return this.productsService.findOne(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a product' })
+  @ApiResponse({ status: 409, description: 'product_code already in use' })
+  async create(@Body() dto: CreateProductDto) {
+    return this.productsService.create(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a product; set `is_active: false` to deactivate it',
+  })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  @ApiResponse({ status: 409, description: 'product_code already in use' })
+  async update(@Param('id') id: string, @Body() dto: UpdateProductDto) {
+    return this.productsService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete a product' })
+  @ApiResponse({
+    status: 204,
+    description: 'Deleted; devices drop it on their next pull',
+  })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Product is referenced by order items',
+  })
+  async remove(@Param('id') id: string) {
+    await this.productsService.remove(id);
+  }
+
+  @Post('import')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_BYTES } }),
+  )
+  @ApiOperation({
+    summary: 'Create or update products from a CSV file',
+    description:
+      'Header row with product_code, product_name and price, optionally description, stock_quantity and is_active. Rows are matched to existing products by product_code.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Counts of created and updated products',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid file; `errors` lists each row, field and reason',
+  })
+  async import(@UploadedFile() file?: Express.Multer.File) {
+    if (!file) {
+      throw new BadRequestException('Upload the CSV as the "file" field');
+    }
+    return this.productsService.importCsv(file.buffer);
+  }
+}
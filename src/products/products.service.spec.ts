@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ProductsService } from './products.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SyncService } from '../sync/sync.service';
+import { SyncMetrics } from '../metrics/sync-metrics';
+import { InMemorySyncEventBus, SYNC_EVENT_BUS } from '../sync/sync-event-bus';
+import { createFakePrisma, FakePrisma } from '../../test/fake-prisma';
+
+const csv = (...lines: string[]) => Buffer.from(lines.join('\r\n'));
+
+describe('ProductsService', () => {
+  let service: ProductsService;
+  let fake: FakePrisma;
+
+  beforeEach(async () => {
+    fake = createFakePrisma();
+    fake.insert('sync_sequence', { name: 'changes', value: 100 });
+    fake.insert('mh_products', {
+      id: 'p1',
+      product_code: 'A1',
+      product_name: 'Apple',
+      description: null,
+      price: 1.5,
+      stock_quantity: 5,
+      is_active: false,
+      created_seq: 90,
+      server_seq: 90,
+    });
+    fake.insert('mh_stock_movements', {
+      id: 'm0',
+      product_id: 'p1',
+      location_id: null,
+      movement_type: 'opening',
+      quantity: 5,
+    });
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductsService,
+        SyncService,
+        SyncMetrics,
+        { provide: PrismaService, useValue: fake.prisma },
+        { provide: SYNC_EVENT_BUS, useClass: InMemorySyncEventBus },
+      ],
+    }).compile();
+
+    service = module.get<ProductsService>(ProductsService);
+  });
+
+  it('rejects a product code that is already in use', async () => {
+    await expect(
+      service.create({ product_code: 'A1', product_name: 'Other', price: 2 }),
+    ).rejects.toThrow('Product code A1 is already used by product p1');
+    expect([...fake.table('mh_products').keys()]).toEqual(['p1']);
+  });
+
+  it('writes only the updated fields', async () => {
+    await service.update('p1', { is_active: true });
+
+    expect(fake.table('mh_products').get('p1')).toMatchObject({
+      product_name: 'Apple',
+      is_active: true,
+      server_seq: 101,
+    });
+    expect(fake.rawStatements()).toEqual([
+      expect.stringMatching(
+        /ON DUPLICATE KEY UPDATE `is_active` = VALUES\(`is_active`\), `server_seq`/,
+      ),
+    ]);
+  });
+
+  it('keeps a product that order items reference', async () => {
+    fake.insert('mh_off_order_items', { id: 'i1', product_id: 'p1' });
+
+    await expect(service.remove('p1')).rejects.toThrow(
+      'Product p1 is referenced by order item i1; deactivate it instead',
+    );
+    expect(fake.table('mh_products').has('p1')).toBe(true);
+
+    fake.table('mh_off_order_items').clear();
+    await service.remove('p1');
+    expect(fake.table('mh_products').has('p1')).toBe(false);
+  });
+
+  it('imports new and existing products by product code', async () => {
+    await expect(
+      service.importCsv(
+        csv(
+          'product_code,product_name,price,is_active,stock_quantity',
+          'A1,"Apple, red",1.75,yes,8',
+          'B2,Banana,0.40,,',
+        ),
+      ),
+    ).resolves.toEqual({ created: 1, updated: 1 });
+
+    const products = fake.rows('mh_products');
+    expect(products).toEqual([
+      expect.objectContaining({
+        id: 'p1',
+        product_name: 'Apple, red',
+        price: 1.75,
+        is_active: true,
+        // Stock is never overwritten, the difference is recorded as a movement
+        stock_quantity: 8,
+      }),
+      expect.objectContaining({
+        product_code: 'B2',
+        price: 0.4,
+        is_active: true,
+      }),
+    ]);
+    expect(fake.rows('mh_stock_movements')).toEqual([
+      expect.objectContaining({ id: 'm0' }),
+      expect.objectContaining({
+        product_id: 'p1',
+        movement_type: 'adjustment',
+        quantity: 3,
+      }),
+    ]);
+  });
+
+  it('keeps stored values of columns an import row leaves empty', async () => {
+    await service.importCsv(
+      csv(
+        'product_code,product_name,price,is_active,stock_quantity',
+        'A1,Green apple,1.60,,',
+      ),
+    );
+
+    expect(fake.table('mh_products').get('p1')).toMatchObject({
+      product_name: 'Green apple',
+      price: 1.6,
+      is_active: false,
+      stock_quantity: 5,
+    });
+    expect(fake.rows('mh_stock_movements')).toHaveLength(1);
+  });
+
+  it('reports every invalid row and applies nothing', async () => {
+    await expect(
+      service.importCsv(
+        csv(
+          'product_code,product_name,price',
+          'C3,Cherry,abc',
+          'D4,Date,1.00',
+          'D4,Date again,1.10',
+        ),
+      ),
+    ).rejects.toMatchObject({
+      response: {
+        errors: [
+          { row: 2, field: 'price', reason: expect.any(String) },
+          { row: 4, field: 'product_code', reason: 'Duplicate of row 3' },
+        ],
+      },
+    });
+    expect(fake.rawStatements()).toEqual([]);
+  });
+});
@@ -0,0 +1,430 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { SyncService } from '../sync/sync.service';
+import { parseCsv } from './csv';
+import { CreateProductDto } from './dto/create-product.dto';
+import { ListProductsQueryDto } from './dto/list-products-query.dto';
+import { UpdateProductDto } from './dto/update-product.dto';
+
+// Columns returned by the admin API; the sync sequence columns stay internal
+const PRODUCT_SELECT = {
+  id: true,
+  product_code: true,
+  product_name: true,
+  description: true,
+  price: true,
+  stock_quantity: true,
+  is_active: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.mh_productsSelect;
+
+const IMPORT_COLUMNS = [
+  'product_code',
+  'product_name',
+  'description',
+  'price',
+  'stock_quantity',
+  'is_active',
+];
+const REQUIRED_IMPORT_COLUMNS = ['product_code', 'product_name', 'price'];
+
+export interface ProductImportError {
+  // Record number in the file, the header row being 1
+  row: number;
+  field: string | null;
+  reason: string;
+}
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  '1': true,
+  yes: true,
+  false: false,
+  '0': false,
+  no: false,
+};
+
+// CSV cell to the type CreateProductDto expects. Empty optional cells are
+// omitted; unparseable cells are passed through for validation to reject.
+function parseImportValue(column: string, raw: string): unknown {
+  const value = raw.trim();
+  switch (column) {
+    case 'description':
+      return value === '' ? null : raw;
+    case 'price':
+    case 'stock_quantity':
+      return value === '' ? undefined : Number(value);
+    case 'is_active':
+      return value === ''
+        ? undefined
+        : (BOOLEAN_VALUES[value.toLowerCase()] ?? value);
+    default:
+      return value;
+  }
+}
+
+// Sync record for a new product. Validated DTO instances carry unset optional
+// fields as undefined, so the defaults cannot simply be spread underneath.
+const newProductRecord = (id: string, product: CreateProductDto) => ({
+  ...product,
+  id,
+  is_active: product.is_active ?? true,
+});
+
+// Fields of a validated DTO that carry a value. Optional fields left out (or
+// left empty in an import) are undefined and must not overwrite stored values.
+const definedFields = (product: object): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(product).filter(([, value]) => value !== undefined),
+  );
+
+// Stock is derived from the movement ledger, so setting it records an
+// adjustment for the difference instead of overwriting the figure
+const stockAdjustments = (
+  productId: string,
+  current: number,
+  target: number | undefined,
+) =>
+  target === undefined || target === current
+    ? []
+    : [
+        {
+          id: randomUUID(),
+          product_id: productId,
+          location_id: null,
+          movement_type: 'adjustment',
+          quantity: target - current,
+        },
+      ];
+
+// All product writes go through SyncService, so they are stamped with a change
+// sequence, tombstoned and announced exactly like a device push.
+@Injectable()
+export class ProductsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly syncService: SyncService,
+  ) {}
+
+  async list(query: ListProductsQueryDto) {
+    const where: Prisma.mh_productsWhereInput = {};
+    if (query.product_code !== undefined) {
+      where.product_code = query.product_code;
+    }
+    if (query.is_active !== undefined) {
+      where.is_active = query.is_active;
+    }
+    if (query.search) {
+      where.OR = [
+        { product_code: { contains: query.search } },
+        { product_name: { contains: query.search } },
+      ];
+    }
+    const [items, total] = await Promise.all([
+      this.prisma.mh_products.findMany({
+        where,
+        select: PRODUCT_SELECT,
+        orderBy: [{ product_code: 'asc' }, { id: 'asc' }],
+        skip: query.offset ?? 0,
+        take: query.limit ?? 50,
+      }),
+      this.prisma.mh_products.count({ where }),
+    ]);
+    return { items, total };
+  }
+
+  async findOne(id: string) {
+    const product = await this.prisma.mh_products.findUnique({
+      where: { id },
+      select: PRODUCT_SELECT,
+    });
+    if (!product) {
+      throw new NotFoundException(`Product ${id} not found`);
+    }
+    return product;
+  }
+
+  // 📉 Products whose reconciled stock is below zero, with the net movement per
+  // location (null for movements recorded on the server) to locate the oversell
+  async negativeStock() {
+    const products = await this.prisma.mh_products.findMany({
+      where: { stock_quantity: { lt: 0 } },
+      select: PRODUCT_SELECT,
+      orderBy: [{ stock_quantity: 'asc' }, { product_code: 'asc' }],
+    });
+    const totals = products.length
+      ? await this.prisma.mh_stock_movements.groupBy({
+          by: ['product_id', 'location_id'],
+          where: { product_id: { in: products.map((product) => product.id) } },
+          _sum: { quantity: true },
+        })
+      : [];
+    return {
+      items: products.map((product) => ({
+        ...product,
+        locations: totals
+          .filter((total) => total.product_id === product.id)
+          .map((total) => ({
+            location_id: total.location_id,
+            quantity: total._sum.quantity ?? 0,
+          })),
+      })),
+    };
+  }
+
+  async create(dto: CreateProductDto) {
+    const id = randomUUID();
+    await this.syncService.applyServerChanges(async (tx) => {
+      await this.assertCodeAvailable(tx, id, dto.product_code);
+      return {
+        mh_products: {
+          created: [newProductRecord(id, dto)],
+          updated: [],
+          deleted: [],
+        },
+        mh_stock_movements: {
+          created: stockAdjustments(id, 0, dto.stock_quantity),
+          updated: [],
+          deleted: [],
+        },
+      };
+    });
+    return this.findOne(id);
+  }
+
+  // 🧩 Only the fields present in `dto` are written, like a device's `_changed` list
+  async update(id: string, dto: UpdateProductDto) {
+    const changed = Object.keys(dto).filter(
+      (key) => dto[key as keyof UpdateProductDto] !== undefined,
+    );
+    if (changed.length === 0) {
+      return this.findOne(id);
+    }
+    await this.syncService.applyServerChanges(async (tx) => {
+      const existing = await this.findInTransaction(tx, id);
+      if (dto.product_code !== undefined) {
+        await this.assertCodeAvailable(tx, id, dto.product_code);
+      }
+      const record: Record<string, any> = {
+        ...existing,
+        price: Number(existing.price),
+      };
+      for (const key of changed) {
+        record[key] = dto[key as keyof UpdateProductDto];
+      }
+      return {
+        mh_products: {
+          created: [],
+          updated: [{ ...record, _changed: changed.join(',') }],
+          deleted: [],
+        },
+        mh_stock_movements: {
+          created: stockAdjustments(
+            id,
+            existing.stock_quantity,
+            dto.stock_quantity,
+          ),
+          updated: [],
+          deleted: [],
+        },
+      };
+    });
+    return this.findOne(id);
+  }
+
+  // 🗑️ Products that orders were taken for stay, so order items never point at a
+  // missing product; deactivate them instead
+  async remove(id: string) {
+    await this.syncService.applyServerChanges(async (tx) => {
+      await this.findInTransaction(tx, id);
+      const item = await tx.mh_off_order_items.findFirst({
+        where: { product_id: id },
+        select: { id: true },
+      });
+      if (item) {
+        throw new ConflictException(
+          `Product ${id} is referenced by order item ${item.id}; deactivate it instead`,
+        );
+      }
+      return { mh_products: { created: [], updated: [], deleted: [id] } };
+    });
+  }
+
+  // 📥 Create or update products from a CSV with a header row. Rows are matched to
+  // existing products by product_code; the file is applied all-or-nothing.
+  async importCsv(content: Buffer) {
+    const [header = [], ...lines] = parseCsv(content.toString('utf8'));
+    const columns = header.map((column) => column.trim());
+    const errors: ProductImportError[] = [];
+
+    for (const column of columns) {
+      if (!IMPORT_COLUMNS.includes(column)) {
+        errors.push({ row: 1, field: column, reason: 'Unknown column' });
+      }
+    }
+    for (const column of REQUIRED_IMPORT_COLUMNS) {
+      if (!columns.includes(column)) {
+        errors.push({ row: 1, field: column, reason: 'Missing column' });
+      }
+    }
+    if (errors.length > 0) {
+      throw this.invalidImport(errors);
+    }
+
+    const rows: { row: number; product: CreateProductDto }[] = [];
+    const rowByCode = new Map<string, number>();
+    for (const [index, cells] of lines.entries()) {
+      const row = index + 2;
+      if (cells.length !== columns.length) {
+        errors.push({
+          row,
+          field: null,
+          reason: `Expected ${columns.length} fields, got ${cells.length}`,
+        });
+        continue;
+      }
+      const plain: Record<string, unknown> = {};
+      columns.forEach((column, i) => {
+        const value = parseImportValue(column, cells[i]);
+        if (value !== undefined) {
+          plain[column] = value;
+        }
+      });
+      const product = plainToInstance(CreateProductDto, plain);
+      const failures = await validate(product, { stopAtFirstError: true });
+      for (const failure of failures) {
+        for (const reason of Object.values(failure.constraints ?? {})) {
+          errors.push({ row, field: failure.property, reason });
+        }
+      }
+      if (failures.length > 0) {
+        continue;
+      }
+
+      const duplicateOf = rowByCode.get(product.product_code);
+      if (duplicateOf !== undefined) {
+        errors.push({
+          row,
+          field: 'product_code',
+          reason: `Duplicate of row ${duplicateOf}`,
+        });
+        continue;
+      }
+      rowByCode.set(product.product_code, row);
+      rows.push({ row, product });
+    }
+    if (errors.length > 0) {
+      throw this.invalidImport(errors);
+    }
+
+    const summary = { created: 0, updated: 0 };
+    await this.syncService.applyServerChanges(async (tx) => {
+      const existing = await this.findByCode(
+        tx,
+        rows.map(({ product }) => product.product_code),
+      );
+      const created: any[] = [];
+      const updated: any[] = [];
+      const movements: any[] = [];
+      for (const { product } of rows) {
+        const match = existing.get(product.product_code);
+        const id = match?.id ?? randomUUID();
+        if (match) {
+          // Columns left out of the file, or empty in this row, keep their
+          // current values on existing products
+          const fields = definedFields(product);
+          updated.push({
+            ...match,
+            price: Number(match.price),
+            ...fields,
+            _changed: Object.keys(fields)
+              .filter((column) => column !== 'product_code')
+              .join(','),
+          });
+        } else {
+          created.push(newProductRecord(id, product));
+        }
+        movements.push(
+          ...stockAdjustments(
+            id,
+            match?.stock_quantity ?? 0,
+            product.stock_quantity,
+          ),
+        );
+      }
+      summary.created = created.length;
+      summary.updated = updated.length;
+      return {
+        mh_products: { created, updated, deleted: [] },
+        mh_stock_movements: { created: movements, updated: [], deleted: [] },
+      };
+    });
+    return summary;
+  }
+
+  private async findInTransaction(tx: Prisma.TransactionClient, id: string) {
+    const product = await tx.mh_products.findUnique({
+      where: { id },
+      select: PRODUCT_SELECT,
+    });
+    if (!product) {
+      throw new NotFoundException(`Product ${id} not found`);
+    }
+    return product;
+  }
+
+  // 🚫 product_code is unique across products; `id` may keep its own code
+  private async assertCodeAvailable(
+    tx: Prisma.TransactionClient,
+    id: string,
+    productCode: string,
+  ) {
+    const other = await tx.mh_products.findFirst({
+      where: { product_code: productCode, NOT: { id } },
+      select: { id: true },
+    });
+    if (other) {
+      throw new ConflictException(
+        `Product code ${productCode} is already used by product ${other.id}`,
+      );
+    }
+  }
+
+  // Existing product per code. Codes already shared by several products
+  // cannot be matched and fail the import.
+  private async findByCode(tx: Prisma.TransactionClient, codes: string[]) {
+    const products = await tx.mh_products.findMany({
+      where: { product_code: { in: codes } },
+      select: PRODUCT_SELECT,
+    });
+    const byCode = new Map<string, (typeof products)[number]>();
+    for (const product of products) {
+      if (byCode.has(product.product_code)) {
+        throw new ConflictException(
+          `Product code ${product.product_code} is used by several products`,
+        );
+      }
+      byCode.set(product.product_code, product);
+    }
+    return byCode;
+  }
+
+  private invalidImport(errors: ProductImportError[]) {
+    return new BadRequestException({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: 'Invalid product import',
+      errors,
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { SyncRecordDto } from './sync-record.dto';
+
+export class MhOffOrderItemDto extends SyncRecordDto {
+  @ApiProperty({ maxLength: 36 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  id: string;
+
+  @ApiProperty({
+    maxLength: 36,
+    description:
+      'Order the item belongs to; must exist on the server or be created in the same push',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  order_id: string;
+
+  @ApiProperty({ maxLength: 36, description: 'Product sold' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  product_id: string;
+
+  @ApiProperty({
+    maxLength: 36,
+    description: "Copy of the order's location_id",
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  location_id: string;
+
+  @ApiProperty({ type: 'integer', minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty({ minimum: 0, description: 'Price of one unit as sold' })
+  @IsNumber({ allowNaN: false, allowInfinity: false, maxDecimalPlaces: 2 })
+  @Min(0)
+  unit_price: number;
+}
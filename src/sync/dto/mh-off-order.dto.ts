@@ -0,0 +1,72 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { SyncRecordDto } from './sync-record.dto';
+import { IsSyncDate, IsSyncTime } from './sync-validators';
+
+export class MhOffOrderDto extends SyncRecordDto {
+  @ApiProperty({ maxLength: 36 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  id: string;
+
+  @ApiProperty({ maxLength: 36 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  location_id: string;
+
+  @ApiProperty({ maxLength: 36, nullable: true, required: false })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @MaxLength(36)
+  customer_id?: string | null;
+
+  @ApiProperty({
+    maxLength: 15,
+    description:
+      'Number issued by the device. The server replaces it with the canonical number on the first push (kept as device_order_no), unless it comes from a range reserved for the device',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(15)
+  order_no: string;
+
+  @ApiProperty({ maxLength: 36 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  order_type_id: string;
+
+  @ApiProperty({
+    description: 'Epoch milliseconds or ISO-8601 string',
+    type: 'number',
+  })
+  @IsSyncDate()
+  order_date: number | string;
+
+  @ApiProperty({
+    description: 'HH:mm:ss on order_date, or epoch milliseconds',
+    type: 'string',
+    example: '18:34:16',
+  })
+  @IsSyncTime()
+  order_time: string | number;
+
+  @ApiProperty({ maxLength: 40 })
+  @IsString()
+  @MaxLength(40)
+  ip_address: string;
+
+  @ApiProperty({ maxLength: 256 })
+  @IsString()
+  @MaxLength(256)
+  user_agent: string;
+}
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { SyncRecordDto } from './sync-record.dto';
+
+export class MhProductDto extends SyncRecordDto {
+  @ApiProperty({ maxLength: 36 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  id: string;
+
+  @ApiProperty({ maxLength: 50 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  product_code: string;
+
+  @ApiProperty({ maxLength: 255 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  product_name: string;
+
+  @ApiProperty({ type: 'string', nullable: true, required: false })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  description?: string | null;
+
+  // DECIMAL(10, 2)
+  @ApiProperty({ minimum: 0, maximum: 99999999.99 })
+  @IsNumber({ allowNaN: false, allowInfinity: false, maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(99999999.99)
+  price: number;
+
+  @ApiProperty({
+    type: 'integer',
+    required: false,
+    description:
+      'Ignored, the server computes it from mh_stock_movements. Push sales, returns and adjustments as movements instead',
+  })
+  @IsOptional()
+  @IsInt()
+  stock_quantity?: number;
+
+  @ApiProperty()
+  @IsBoolean()
+  is_active: boolean;
+}
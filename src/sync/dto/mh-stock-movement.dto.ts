@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { SyncRecordDto } from './sync-record.dto';
+import { IsMovementQuantity } from './sync-validators';
+
+export const STOCK_MOVEMENT_TYPES = ['sale', 'return', 'adjustment'] as const;
+
+export class MhStockMovementDto extends SyncRecordDto {
+  @ApiProperty({ maxLength: 36 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  id: string;
+
+  @ApiProperty({ maxLength: 36 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  product_id: string;
+
+  @ApiProperty({ maxLength: 36 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  location_id: string;
+
+  @ApiProperty({ enum: STOCK_MOVEMENT_TYPES })
+  @IsIn(STOCK_MOVEMENT_TYPES)
+  movement_type: (typeof STOCK_MOVEMENT_TYPES)[number];
+
+  @ApiProperty({
+    type: 'integer',
+    description:
+      'Signed change in stock: negative for sales, positive for returns',
+  })
+  @IsMovementQuantity()
+  quantity: number;
+
+  @ApiProperty({ maxLength: 36, nullable: true, required: false })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @MaxLength(36)
+  order_id?: string | null;
+}
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class ReserveOrderNumbersDto {
+  @ApiProperty({ maxLength: 36, description: "One of the device's locations" })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  location_id: string;
+
+  @ApiProperty({ type: 'integer', minimum: 1, maximum: 1000 })
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  count: number;
+}
@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { IsSyncDate } from './sync-validators';
+
+// WatermelonDB bookkeeping fields present on every pushed record
+export abstract class SyncRecordDto {
+  @ApiPropertyOptional({ enum: ['created', 'updated', 'deleted'] })
+  @IsOptional()
+  @IsIn(['created', 'updated', 'deleted'])
+  _status?: string;
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated list of columns changed on the client',
+  })
+  @IsOptional()
+  @IsString()
+  _changed?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Ignored, the server records when a row was first created on it',
+    type: 'number',
+  })
+  @IsOptional()
+  @IsSyncDate()
+  created_at?: number | string;
+
+  @ApiPropertyOptional({
+    description:
+      'Ignored, the server stamps every write with its own time and change sequence',
+    type: 'number',
+  })
+  @IsOptional()
+  @IsSyncDate()
+  updated_at?: number | string;
+}
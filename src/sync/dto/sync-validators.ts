@@ -0,0 +1,71 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+const isValidDate = (value: unknown) =>
+  (typeof value === 'number' && Number.isFinite(value)) ||
+  (typeof value === 'string' &&
+    value.trim() !== '' &&
+    !Number.isNaN(Date.parse(value)));
+
+// Epoch milliseconds (how WatermelonDB stores dates) or an ISO-8601 string
+export function IsSyncDate(options?: ValidationOptions) {
+  return (object: object, propertyName: string) =>
+    registerDecorator({
+      name: 'isSyncDate',
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: `${propertyName} must be epoch milliseconds or an ISO-8601 date string`,
+        ...options,
+      },
+      validator: { validate: isValidDate },
+    });
+}
+
+// "HH:mm" / "HH:mm:ss" wall-clock time, or epoch milliseconds
+export function IsSyncTime(options?: ValidationOptions) {
+  return (object: object, propertyName: string) =>
+    registerDecorator({
+      name: 'isSyncTime',
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: `${propertyName} must be a HH:mm:ss time or epoch milliseconds`,
+        ...options,
+      },
+      validator: {
+        validate: (value: unknown) =>
+          (typeof value === 'string' && TIME_OF_DAY.test(value)) ||
+          (typeof value === 'number' && Number.isFinite(value)),
+      },
+    });
+}
+
+// Stock movement delta whose sign matches the record's movement_type:
+// sales take stock out, returns put it back, adjustments go either way
+export function IsMovementQuantity(options?: ValidationOptions) {
+  return (object: object, propertyName: string) =>
+    registerDecorator({
+      name: 'isMovementQuantity',
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: `${propertyName} must be a non-zero integer, negative for sales and positive for returns`,
+        ...options,
+      },
+      validator: {
+        validate: (value: unknown, args) => {
+          if (!Number.isInteger(value) || value === 0) {
+            return false;
+          }
+          const type = (args?.object as { movement_type?: unknown })
+            .movement_type;
+          return (
+            (type !== 'sale' || (value as number) < 0) &&
+            (type !== 'return' || (value as number) > 0)
+          );
+        },
+      },
+    });
+}
@@ -0,0 +1,23 @@
+import { BadRequestException, Injectable, PipeTransform } from '@nestjs/common';
+
+// Parses last_pulled_at into the change sequence it names, undefined when the
+// client never pulled and leaves it out. Anything but a non-negative integer is
+// a 400 instead of a NaN reaching the change sequence filters.
+@Injectable()
+export class ParseLastPulledAtPipe implements PipeTransform {
+  transform(value: unknown): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (
+      typeof value !== 'string' ||
+      !/^\d+$/.test(value) ||
+      !Number.isSafeInteger(Number(value))
+    ) {
+      throw new BadRequestException(
+        'last_pulled_at must be the `timestamp` of a previous pull; leave it out before the first pull',
+      );
+    }
+    return Number(value);
+  }
+}
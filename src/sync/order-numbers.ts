@@ -0,0 +1,150 @@
+import type { Prisma } from '@prisma/client';
+import { pushedRows } from './sync-references';
+import type { SyncTableChanges, SyncWriteContext } from './tables/sync-table';
+
+// The fields of a pushed order its numbering reads
+type PushedOrder = { id: string; location_id: string; order_no: string };
+
+// Canonical order numbers are a per-location counter, zero-padded so they sort
+// as text. Must fit mh_off_orders.order_no (VARCHAR(15)).
+const ORDER_NO_DIGITS = 8;
+
+export function formatOrderNumber(value: number): string {
+  return String(value).padStart(ORDER_NO_DIGITS, '0');
+}
+
+// 🔢 Take `count` consecutive numbers from a location's counter and return the
+// first. The counter row stays locked until the transaction ends.
+export async function allocateOrderNumbers(
+  tx: Prisma.TransactionClient,
+  locationId: string,
+  count: number,
+): Promise<number> {
+  const sequence = await tx.sync_order_sequences.upsert({
+    where: { location_id: locationId },
+    create: { location_id: locationId, last_value: count },
+    update: { last_value: { increment: count } },
+  });
+  return Number(sequence.last_value) - count + 1;
+}
+
+// The numbers devices printed from their reserved ranges that they may keep, per
+// order id. A reserved number used twice (e.g. after a device restore, or twice in
+// one push) is only kept the first time.
+async function findReservedNumbers(
+  tx: Prisma.TransactionClient,
+  deviceId: string | null,
+  items: PushedOrder[],
+): Promise<Map<string, string>> {
+  const kept = new Map<string, string>();
+  const candidates = items.filter((item) => /^\d{1,15}$/.test(item.order_no));
+  if (!deviceId || candidates.length === 0) {
+    return kept;
+  }
+
+  const locationIds = [...new Set(candidates.map((item) => item.location_id))];
+  const values = candidates.map((item) => Number(item.order_no));
+  const orderNumbers = values.map(formatOrderNumber);
+  const reservations = await tx.sync_order_number_reservations.findMany({
+    where: {
+      device_id: deviceId,
+      location_id: { in: locationIds },
+      first_value: { lte: Math.max(...values) },
+      last_value: { gte: Math.min(...values) },
+    },
+    select: { location_id: true, first_value: true, last_value: true },
+  });
+  const used = await tx.mh_off_orders.findMany({
+    where: {
+      location_id: { in: locationIds },
+      order_no: { in: [...new Set(orderNumbers)] },
+    },
+    select: { location_id: true, order_no: true },
+  });
+  const taken = new Set(
+    used.map((order) => `${order.location_id}:${order.order_no}`),
+  );
+
+  candidates.forEach((item, index) => {
+    const value = values[index];
+    const key = `${item.location_id}:${orderNumbers[index]}`;
+    const reserved = reservations.some(
+      (reservation) =>
+        reservation.location_id === item.location_id &&
+        Number(reservation.first_value) <= value &&
+        Number(reservation.last_value) >= value,
+    );
+    if (reserved && !taken.has(key)) {
+      taken.add(key);
+      kept.set(item.id, orderNumbers[index]);
+    }
+  });
+  return kept;
+}
+
+// 🧾 beforeWrite hook of mh_off_orders. The first time the server sees an order
+// it keeps the device's number as `device_order_no` and assigns the canonical
+// `order_no`: the device's own number if it came from a range reserved for that
+// device and location, otherwise the next number of the location's counter.
+// Orders already on the server keep their assigned number.
+export async function assignOrderNumbers(
+  tx: Prisma.TransactionClient,
+  changes: SyncTableChanges,
+  context: SyncWriteContext,
+): Promise<SyncTableChanges> {
+  const items = pushedRows<PushedOrder>(changes);
+  if (items.length === 0) {
+    return changes;
+  }
+
+  const existing = await tx.mh_off_orders.findMany({
+    where: { id: { in: items.map((item) => item.id) } },
+    select: { id: true, order_no: true },
+  });
+  const assigned = new Map(existing.map((row) => [row.id, row.order_no]));
+  // An order pushed twice in one batch is numbered once
+  const unnumbered = [
+    ...new Map(
+      items
+        .filter((item) => !assigned.has(item.id))
+        .map((item) => [item.id, item]),
+    ).values(),
+  ];
+
+  const numbers = await findReservedNumbers(tx, context.deviceId, unnumbered);
+  // The rest take consecutive numbers from their location's counter, one
+  // allocation per location
+  const byLocation = new Map<string, PushedOrder[]>();
+  for (const item of unnumbered.filter((item) => !numbers.has(item.id))) {
+    byLocation.set(item.location_id, [
+      ...(byLocation.get(item.location_id) ?? []),
+      item,
+    ]);
+  }
+  for (const [locationId, locationItems] of byLocation) {
+    const first = await allocateOrderNumbers(
+      tx,
+      locationId,
+      locationItems.length,
+    );
+    locationItems.forEach((item, index) =>
+      numbers.set(item.id, formatOrderNumber(first + index)),
+    );
+  }
+
+  const withOrderNumber = (item: PushedOrder) => {
+    const current = assigned.get(item.id);
+    return current !== undefined
+      ? { ...item, order_no: current }
+      : {
+          ...item,
+          order_no: numbers.get(item.id),
+          device_order_no: item.order_no,
+        };
+  };
+  return {
+    created: ((changes.created ?? []) as PushedOrder[]).map(withOrderNumber),
+    updated: ((changes.updated ?? []) as PushedOrder[]).map(withOrderNumber),
+    deleted: changes.deleted ?? [],
+  };
+}
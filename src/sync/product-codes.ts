@@ -0,0 +1,82 @@
+import { BadRequestException } from '@nestjs/common';
+import type { Prisma } from '@prisma/client';
+import type { SyncValidationError } from './sync-changes-validation.pipe';
+import { findRowsWhereIn, pushedRows } from './sync-references';
+import type { SyncTableChanges, SyncWriteContext } from './tables/sync-table';
+
+type ProductCodeRow = { id: string; product_code: string };
+
+// 🏷️ beforeWrite hook of mh_products. product_code is unique across products, so
+// a push may not create a product, or give one a new code, that another product
+// keeps after the push. Rows keeping the code they have are not checked again.
+// Runs after the push took the sequence lock, so concurrent pushes can't race it.
+export async function assertUniqueProductCodes(
+  tx: Prisma.TransactionClient,
+  changes: SyncTableChanges,
+  { dialect }: SyncWriteContext,
+): Promise<SyncTableChanges> {
+  const items = pushedRows<ProductCodeRow>(changes);
+  if (items.length === 0) {
+    return changes;
+  }
+
+  const pushedIds = items.map((item) => item.id);
+  const stored = await findRowsWhereIn<ProductCodeRow>(
+    tx,
+    dialect,
+    'mh_products',
+    'id',
+    pushedIds,
+    ['id', 'product_code'],
+  );
+  const storedCode = new Map(stored.map((row) => [row.id, row.product_code]));
+  const claiming = items.filter(
+    (item) => storedCode.get(item.id) !== item.product_code,
+  );
+  if (claiming.length === 0) {
+    return changes;
+  }
+
+  // Code of every product the claimed codes belong to after the push: pushed
+  // rows as pushed, other stored rows as stored, deleted rows not at all
+  const owners = new Map<string, string[]>();
+  const addOwner = (code: string, id: string) =>
+    owners.set(code, [...(owners.get(code) ?? []), id]);
+  const released = new Set([...pushedIds, ...(changes.deleted ?? [])]);
+  const others = await findRowsWhereIn<ProductCodeRow>(
+    tx,
+    dialect,
+    'mh_products',
+    'product_code',
+    [...new Set(claiming.map((item) => item.product_code))],
+    ['id', 'product_code'],
+  );
+  for (const row of others.filter((row) => !released.has(row.id))) {
+    addOwner(row.product_code, row.id);
+  }
+  for (const item of items) {
+    addOwner(item.product_code, item.id);
+  }
+
+  const errors: SyncValidationError[] = [];
+  for (const item of claiming) {
+    const other = owners.get(item.product_code)?.find((id) => id !== item.id);
+    if (other) {
+      errors.push({
+        table: 'mh_products',
+        id: item.id,
+        field: 'product_code',
+        reason: `Product code ${item.product_code} is already used by product ${other}`,
+      });
+    }
+  }
+  if (errors.length > 0) {
+    throw new BadRequestException({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: 'Push reuses product codes of other products',
+      errors,
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,114 @@
+import { BadRequestException, HttpException } from '@nestjs/common';
+import { SYNC_TABLES } from './tables';
+
+// Oldest client schema version whose pushes are still accepted. Raise it when a
+// release changes what the server expects from pushed records. Version 2 added
+// the stock movement ledger; stock_quantity edits of older clients would be lost.
+export const MIN_PUSH_SCHEMA_VERSION = Number(
+  process.env.SYNC_MIN_PUSH_SCHEMA_VERSION ?? 2,
+);
+
+// Newest client schema version the table registry describes
+export const LATEST_SCHEMA_VERSION = Math.max(
+  ...SYNC_TABLES.flatMap((table) => [
+    table.sinceSchemaVersion ?? 1,
+    ...table.columns.map((column) => column.sinceSchemaVersion ?? 1),
+  ]),
+);
+
+// `migration` argument of WatermelonDB's pullChanges: what the client's local
+// database gained since `from` (its schema version at the previous sync)
+export interface ClientMigration {
+  from: number;
+  tables: string[];
+  columns: { table: string; columns: string[] }[];
+}
+
+// How a pull reads one table:
+// - incremental: rows changed since last_pulled_at
+// - full:        a table the client just gained; every row, sent as created
+// - columns:     columns the client just gained; every row, so they get filled in
+// - skip:        a table the client's schema version does not have yet
+export type TablePullMode = 'incremental' | 'full' | 'columns' | 'skip';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Parses the JSON `migration` query parameter; absent or `null` means no migration
+export function parseClientMigration(
+  value: string | undefined,
+): ClientMigration | null {
+  if (value === undefined || value === '' || value === 'null') {
+    return null;
+  }
+  try {
+    const migration = JSON.parse(value) as ClientMigration;
+    if (
+      Number.isInteger(migration?.from) &&
+      isStringArray(migration.tables) &&
+      Array.isArray(migration.columns) &&
+      migration.columns.every(
+        (entry) =>
+          typeof entry?.table === 'string' && isStringArray(entry.columns),
+      )
+    ) {
+      return migration;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new BadRequestException(
+    'migration must be JSON like {"from":1,"tables":[],"columns":[]}',
+  );
+}
+
+// Pull mode per table for a client at `schemaVersion`. Clients that don't send a
+// version predate versioning and count as version 1. A table or column counts as
+// new to the client if its migration lists it or the registry dates it after `from`.
+export function planPull(
+  schemaVersion: number | undefined,
+  migration: ClientMigration | null,
+): Record<string, TablePullMode> {
+  const version = schemaVersion ?? 1;
+  const gained = (version: number | undefined) =>
+    migration !== null && (version ?? 1) > migration.from;
+
+  const modes: Record<string, TablePullMode> = {};
+  for (const table of SYNC_TABLES) {
+    if ((table.sinceSchemaVersion ?? 1) > version) {
+      modes[table.name] = 'skip';
+    } else if (
+      migration?.tables.includes(table.name) ||
+      gained(table.sinceSchemaVersion)
+    ) {
+      modes[table.name] = 'full';
+    } else if (
+      migration?.columns.some(
+        (entry) => entry.table === table.name && entry.columns.length > 0,
+      ) ||
+      table.columns.some((column) => gained(column.sinceSchemaVersion))
+    ) {
+      modes[table.name] = 'columns';
+    } else {
+      modes[table.name] = 'incremental';
+    }
+  }
+  return modes;
+}
+
+// 426 for pushes from clients older than MIN_PUSH_SCHEMA_VERSION. Clients that
+// don't send a version predate versioning and count as version 1.
+export function assertPushSchemaVersion(schemaVersion: number | undefined) {
+  const version = schemaVersion ?? 1;
+  if (version < MIN_PUSH_SCHEMA_VERSION) {
+    throw new HttpException(
+      {
+        statusCode: 426,
+        error: 'Upgrade Required',
+        message: `Client schema version ${version} is no longer supported, update the app to sync`,
+        min_schema_version: MIN_PUSH_SCHEMA_VERSION,
+      },
+      426,
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import type { Prisma } from '@prisma/client';
+import type {
+  SyncTableChanges,
+  SyncTouchedTable,
+  SyncWriteContext,
+} from './tables/sync-table';
+
+// 📦 Recompute stock_quantity of the given products as the sum of their
+// movements, stamping them with the write's change sequence so every device
+// pulls the reconciled figure. Products that don't exist (yet) are skipped.
+export async function reconcileStock(
+  tx: Prisma.TransactionClient,
+  productIds: string[],
+  seq: number,
+): Promise<string[]> {
+  const ids = [...new Set(productIds)];
+  if (ids.length === 0) {
+    return [];
+  }
+  const totals = await tx.mh_stock_movements.groupBy({
+    by: ['product_id'],
+    where: { product_id: { in: ids } },
+    _sum: { quantity: true },
+  });
+  const stock = new Map(
+    totals.map((total) => [total.product_id, total._sum.quantity ?? 0]),
+  );
+
+  const updated: string[] = [];
+  for (const id of ids) {
+    const { count } = await tx.mh_products.updateMany({
+      where: { id },
+      data: {
+        stock_quantity: stock.get(id) ?? 0,
+        server_seq: seq,
+        updated_at: new Date(),
+      },
+    });
+    if (count > 0) {
+      updated.push(id);
+    }
+  }
+  return updated;
+}
+
+// afterWrite hook of mh_stock_movements
+export async function reconcileMovedProducts(
+  tx: Prisma.TransactionClient,
+  changes: SyncTableChanges,
+  context: SyncWriteContext,
+): Promise<SyncTouchedTable[]> {
+  const { created = [], updated = [] } = changes;
+  const reconciled = await reconcileStock(
+    tx,
+    [...created, ...updated].map((movement) => movement.product_id),
+    context.seq,
+  );
+  return reconciled.length > 0
+    ? [{ name: 'mh_products', scopeValues: null }]
+    : [];
+}
@@ -0,0 +1,110 @@
+import { BadRequestException } from '@nestjs/common';
+import { SyncChangesValidationPipe } from './sync-changes-validation.pipe';
+
+const product = (overrides: Record<string, any> = {}) => ({
+  id: 'p1',
+  product_code: 'CODE-1',
+  product_name: 'Espresso',
+  description: null,
+  price: 2.5,
+  stock_quantity: 10,
+  is_active: true,
+  _status: 'created',
+  _changed: '',
+  ...overrides,
+});
+
+describe('SyncChangesValidationPipe', () => {
+  const pipe = new SyncChangesValidationPipe();
+
+  const errorsFor = async (changes: unknown) => {
+    try {
+      await pipe.transform(changes);
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      return (error as BadRequestException).getResponse()['errors'];
+    }
+    throw new Error('Expected validation to fail');
+  };
+
+  it('passes a valid payload through unchanged', async () => {
+    const changes = {
+      mh_products: { created: [product()], updated: [], deleted: ['p9'] },
+    };
+    await expect(pipe.transform(changes)).resolves.toBe(changes);
+  });
+
+  it('reports the table, record id, field and reason of a bad value', async () => {
+    const errors = await errorsFor({
+      mh_products: { created: [product({ price: 'abc' })] },
+    });
+    expect(errors).toEqual([
+      expect.objectContaining({
+        table: 'mh_products',
+        id: 'p1',
+        field: 'price',
+      }),
+    ]);
+  });
+
+  it('rejects unknown tables and missing required fields', async () => {
+    const errors = await errorsFor({
+      mh_unknown: { created: [] },
+      mh_off_orders: {
+        created: [
+          {
+            id: 'o1',
+            location_id: 'loc-1',
+            order_no: 'A-1',
+            order_type_id: 't-1',
+            order_date: Date.now(),
+            ip_address: '127.0.0.1',
+            user_agent: 'jest',
+          },
+        ],
+      },
+    });
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          table: 'mh_unknown',
+          reason: 'Unknown table',
+        }),
+        expect.objectContaining({
+          table: 'mh_off_orders',
+          id: 'o1',
+          field: 'order_time',
+        }),
+      ]),
+    );
+  });
+
+  it('only accepts new stock movements with a quantity matching their type', async () => {
+    const movement = (id: string, overrides: Record<string, any> = {}) => ({
+      id,
+      product_id: 'p1',
+      location_id: 'loc-1',
+      movement_type: 'sale',
+      quantity: -1,
+      ...overrides,
+    });
+    const errors = await errorsFor({
+      mh_stock_movements: {
+        created: [movement('m1'), movement('m2', { quantity: 2 })],
+        updated: [movement('m3')],
+        deleted: ['m4'],
+      },
+    });
+    expect(errors).toEqual([
+      expect.objectContaining({ id: 'm2', field: 'quantity' }),
+      expect.objectContaining({
+        id: 'm3',
+        reason: 'Rows of this table cannot be updated',
+      }),
+      expect.objectContaining({
+        id: 'm4',
+        reason: 'Rows of this table cannot be deleted',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  BadRequestException,
+  Injectable,
+  Optional,
+  PipeTransform,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { SyncMetrics } from '../metrics/sync-metrics';
+import { getSyncTable, SyncTableDefinition } from './tables';
+
+export interface SyncValidationError {
+  table: string;
+  id: string | null;
+  field: string | null;
+  reason: string;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Validates a WatermelonDB push body against the registered tables' DTOs
+// before anything is written. Collects every problem instead of stopping at
+// the first one, so the client gets a complete report in a single 400.
+@Injectable()
+export class SyncChangesValidationPipe implements PipeTransform {
+  constructor(@Optional() private readonly metrics?: SyncMetrics) {}
+
+  async transform(changes: unknown) {
+    const errors: SyncValidationError[] = [];
+
+    if (!isPlainObject(changes)) {
+      throw this.invalid([
+        {
+          table: '',
+          id: null,
+          field: null,
+          reason: 'Body must be an object keyed by table name',
+        },
+      ]);
+    }
+
+    for (const [tableName, tableChanges] of Object.entries(changes)) {
+      const table = getSyncTable(tableName);
+      if (!table) {
+        errors.push({
+          table: tableName,
+          id: null,
+          field: null,
+          reason: 'Unknown table',
+        });
+        continue;
+      }
+      errors.push(...(await this.validateTable(table, tableChanges)));
+    }
+
+    if (errors.length > 0) {
+      throw this.invalid(errors);
+    }
+    return changes;
+  }
+
+  private async validateTable(
+    table: SyncTableDefinition,
+    tableChanges: unknown,
+  ): Promise<SyncValidationError[]> {
+    const error = (
+      reason: string,
+      id: string | null = null,
+      field: string | null = null,
+    ) => ({ table: table.name, id, field, reason });
+
+    if (!isPlainObject(tableChanges)) {
+      return [error('Must be an object with created, updated and deleted')];
+    }
+
+    const errors: SyncValidationError[] = [];
+    for (const key of Object.keys(tableChanges)) {
+      if (!['created', 'updated', 'deleted'].includes(key)) {
+        errors.push(error(`Unexpected key "${key}"`));
+      }
+    }
+
+    for (const kind of ['created', 'updated'] as const) {
+      const records = tableChanges[kind] ?? [];
+      if (!Array.isArray(records)) {
+        errors.push(error(`${kind} must be an array`));
+        continue;
+      }
+      for (const record of records) {
+        if (!isPlainObject(record)) {
+          errors.push(error(`${kind} entries must be objects`));
+          continue;
+        }
+        const id = typeof record.id === 'string' ? record.id : null;
+        const instance = plainToInstance(table.recordDto, record);
+        const failures = await validate(instance, {
+          whitelist: true,
+          forbidNonWhitelisted: true,
+          stopAtFirstError: true,
+        });
+        for (const failure of failures) {
+          for (const reason of Object.values(failure.constraints ?? {})) {
+            errors.push(error(reason, id, failure.property));
+          }
+        }
+      }
+    }
+
+    const deleted = tableChanges.deleted ?? [];
+    if (
+      !Array.isArray(deleted) ||
+      deleted.some((id) => typeof id !== 'string' || id === '')
+    ) {
+      errors.push(error('deleted must be an array of record ids'));
+    }
+
+    if (table.appendOnly) {
+      const updated = tableChanges.updated ?? [];
+      for (const record of Array.isArray(updated) ? updated : []) {
+        const id = typeof record?.id === 'string' ? record.id : null;
+        errors.push(error('Rows of this table cannot be updated', id));
+      }
+      for (const id of Array.isArray(deleted) ? deleted : []) {
+        errors.push(error('Rows of this table cannot be deleted', String(id)));
+      }
+    }
+
+    return errors;
+  }
+
+  private invalid(errors: SyncValidationError[]) {
+    this.metrics?.recordValidationRejections(errors);
+    return new BadRequestException({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: 'Invalid push payload',
+      errors,
+    });
+  }
+}
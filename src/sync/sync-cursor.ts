@@ -0,0 +1,50 @@
+import { BadRequestException } from '@nestjs/common';
+import type { TablePullMode } from './schema-versions';
+
+// Position of a paginated pull. Opaque to clients: they send back whatever the
+// previous page returned until `has_more` is false.
+export interface PullCursor {
+  // last_pulled_at the pull started from (server change sequence)
+  since: number;
+  // Sequence fixed on the first page; returned as `timestamp` on every page
+  until: number;
+  // Index in SYNC_TABLES of the table being paged through
+  table: number;
+  // Keyset of the last row returned from that table, null before its first row
+  after: { seq: number; id: string } | null;
+  // Pull mode per table name, planned on the first page from the client's schema
+  // version and migration; absent from older cursors, whose tables are all
+  // pulled incrementally
+  modes?: Record<string, TablePullMode>;
+  // Set when the pull restarted from scratch because `since` was too old to
+  // pull incrementally from; absent from older cursors
+  reset?: boolean;
+}
+
+export function encodePullCursor(cursor: PullCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodePullCursor(value: string): PullCursor {
+  try {
+    const cursor = JSON.parse(
+      Buffer.from(value, 'base64url').toString('utf8'),
+    ) as PullCursor;
+    if (
+      typeof cursor.since === 'number' &&
+      typeof cursor.until === 'number' &&
+      Number.isInteger(cursor.table) &&
+      (cursor.modes === undefined ||
+        (typeof cursor.modes === 'object' && cursor.modes !== null)) &&
+      (cursor.reset === undefined || typeof cursor.reset === 'boolean') &&
+      (cursor.after === null ||
+        (typeof cursor.after?.seq === 'number' &&
+          typeof cursor.after?.id === 'string'))
+    ) {
+      return cursor;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new BadRequestException('Invalid pull cursor');
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+
+// Published once per committed push. Carries no row data: devices react by pulling.
+export interface SyncChangeEvent {
+  // Change sequence the push was stamped with
+  seq: number;
+  tables: {
+    name: string;
+    // Scope column values of the touched rows, null for global tables
+    scopeValues: string[] | null;
+  }[];
+}
+
+// Fan-out of change events to every connected device. The default in-memory
+// bus only reaches devices connected to this instance; bind another
+// implementation (e.g. Redis pub/sub) to SYNC_EVENT_BUS to run several.
+export interface SyncEventBus {
+  publish(event: SyncChangeEvent): Promise<void>;
+  events(): Observable<SyncChangeEvent>;
+}
+
+export const SYNC_EVENT_BUS = Symbol('SYNC_EVENT_BUS');
+
+@Injectable()
+export class InMemorySyncEventBus implements SyncEventBus {
+  private readonly subject = new Subject<SyncChangeEvent>();
+
+  publish(event: SyncChangeEvent) {
+    this.subject.next(event);
+    return Promise.resolve();
+  }
+
+  events() {
+    return this.subject.asObservable();
+  }
+}
@@ -0,0 +1,61 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  PURGED_TOMBSTONES_SEQUENCE,
+  SyncMaintenanceService,
+} from './sync-maintenance.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { createFakePrisma, FakePrisma } from '../../test/fake-prisma';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SyncMaintenanceService', () => {
+  let service: SyncMaintenanceService;
+  let fake: FakePrisma;
+  const now = new Date('2025-06-30T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+  beforeEach(async () => {
+    fake = createFakePrisma();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncMaintenanceService,
+        { provide: PrismaService, useValue: fake.prisma },
+      ],
+    }).compile();
+
+    service = module.get<SyncMaintenanceService>(SyncMaintenanceService);
+  });
+
+  it('purges tombstones older than the retention window', async () => {
+    fake.insert(
+      'sync_deletions',
+      { id: 1n, record_id: 'o1', deleted_at: daysAgo(91), seq: 1 },
+      { id: 2n, record_id: 'o2', deleted_at: daysAgo(89), seq: 2 },
+      { id: 3n, record_id: 'o3', deleted_at: now, seq: 3 },
+    );
+
+    await expect(service.purgeTombstones(now)).resolves.toBe(1);
+
+    expect(fake.rows('sync_deletions').map((row) => row.record_id)).toEqual([
+      'o2',
+      'o3',
+    ]);
+  });
+
+  it('keeps the sequence of the newest purged tombstone', async () => {
+    fake.insert(
+      'sync_deletions',
+      { id: 1n, record_id: 'o1', deleted_at: daysAgo(95), seq: 10 },
+      { id: 2n, record_id: 'o2', deleted_at: daysAgo(91), seq: 20 },
+      { id: 3n, record_id: 'o3', deleted_at: daysAgo(89), seq: 30 },
+    );
+
+    await service.purgeTombstones(now);
+    // Nothing left to purge: the sequence stays
+    await service.purgeTombstones(now);
+
+    expect(fake.rows('sync_sequence')).toEqual([
+      { name: PURGED_TOMBSTONES_SEQUENCE, value: 20 },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Row of sync_sequence holding the change sequence of the newest purged tombstone
+export const PURGED_TOMBSTONES_SEQUENCE = 'tombstones_purged';
+
+@Injectable()
+export class SyncMaintenanceService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SyncMaintenanceService.name);
+  private timer?: NodeJS.Timeout;
+
+  // Tombstones older than this are purged. Devices that have not pulled within
+  // the window would miss those deletions and have to pull everything again, so
+  // keep it well above the longest expected offline period.
+  private readonly tombstoneRetentionDays = Number(
+    process.env.SYNC_TOMBSTONE_RETENTION_DAYS ?? 90,
+  );
+  private readonly purgeIntervalMs = Number(
+    process.env.SYNC_PURGE_INTERVAL_MS ?? 6 * 60 * 60 * 1000,
+  );
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  onModuleInit() {
+    if (this.purgeIntervalMs <= 0) {
+      this.logger.log('Periodic purge disabled (SYNC_PURGE_INTERVAL_MS <= 0)');
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.runPurge().catch((error) =>
+        this.logger.error('Scheduled purge failed', error),
+      );
+    }, this.purgeIntervalMs);
+    // Don't keep the process alive just for housekeeping
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async runPurge() {
+    await this.purgeTombstones();
+    await this.purgeExpiredBatches();
+  }
+
+  // 🧹 Delete tombstones older than the retention window. The sequence of the
+  // newest one is kept, so pulls from before it start over instead of missing
+  // the deletions.
+  async purgeTombstones(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(
+      now.getTime() - this.tombstoneRetentionDays * DAY_MS,
+    );
+    const where = { deleted_at: { lt: cutoff } };
+    const count = await this.prisma.$transaction(async (tx) => {
+      const newest = await tx.sync_deletions.findFirst({
+        where,
+        orderBy: { seq: 'desc' },
+        select: { seq: true },
+      });
+      if (!newest) {
+        return 0;
+      }
+      const purged = await tx.sync_sequence.findUnique({
+        where: { name: PURGED_TOMBSTONES_SEQUENCE },
+      });
+      if (!purged || purged.value < newest.seq) {
+        await tx.sync_sequence.upsert({
+          where: { name: PURGED_TOMBSTONES_SEQUENCE },
+          create: { name: PURGED_TOMBSTONES_SEQUENCE, value: newest.seq },
+          update: { value: newest.seq },
+        });
+      }
+      return (await tx.sync_deletions.deleteMany({ where })).count;
+    });
+    if (count > 0) {
+      this.logger.log(
+        `Purged ${count} tombstone(s) older than ${cutoff.toISOString()}`,
+      );
+    }
+    return count;
+  }
+
+  // 🧹 Forget push batches whose replay window has passed
+  async purgeExpiredBatches(now: Date = new Date()): Promise<number> {
+    const { count } = await this.prisma.sync_push_batches.deleteMany({
+      where: { expires_at: { lt: now } },
+    });
+    if (count > 0) {
+      this.logger.log(`Purged ${count} expired push batch record(s)`);
+    }
+    return count;
+  }
+}
@@ -0,0 +1,181 @@
+import type { Prisma } from '@prisma/client';
+import type { SqlDialect } from '../prisma/sql-dialect';
+import type { SyncValidationError } from './sync-changes-validation.pipe';
+import { SYNC_TABLES } from './tables';
+import type { SyncTableChanges, SyncTableReference } from './tables';
+
+type PushChanges = Record<string, SyncTableChanges | undefined>;
+
+// A created or updated record of a push, or the selected columns of a stored row
+export type SyncRow = { id: string } & Record<string, unknown>;
+
+// The part of a Prisma model findRowsWhereIn reads through
+interface FindManyDelegate<Row> {
+  findMany(args: {
+    where: object;
+    select: Record<string, boolean>;
+  }): Promise<Row[]>;
+}
+
+// Created and updated records of one table's changes
+export function pushedRows<Row extends SyncRow = SyncRow>(
+  changes: SyncTableChanges | undefined,
+): Row[] {
+  const created = (changes?.created ?? []) as Row[];
+  const updated = (changes?.updated ?? []) as Row[];
+  return [...created, ...updated];
+}
+
+// Rows of `table` whose `column` is one of `values`, read through the Prisma model
+// or with raw SQL when the model doesn't exist (Prisma client not regenerated)
+export function findRowsWhereIn<Row extends SyncRow = SyncRow>(
+  tx: Prisma.TransactionClient,
+  dialect: SqlDialect,
+  table: string,
+  column: string,
+  values: string[],
+  columns: string[],
+): Promise<Row[]> {
+  const model = (
+    tx as unknown as Record<string, FindManyDelegate<Row> | undefined>
+  )[table];
+  if (model) {
+    return model.findMany({
+      where: { [column]: { in: values } },
+      select: Object.fromEntries(columns.map((name) => [name, true])),
+    });
+  }
+  const q = (identifier: string) => dialect.quote(identifier);
+  return tx.$queryRawUnsafe<Row[]>(
+    `SELECT ${columns.map(q).join(', ')} FROM ${q(table)} WHERE ${q(column)} IN (${values.map(() => '?').join(', ')})`,
+    ...values,
+  );
+}
+
+// Pushed rows of `tableName` whose reference points at a row that neither exists
+// nor is created by the push, or that the push deletes
+async function findDanglingReferences(
+  tx: Prisma.TransactionClient,
+  dialect: SqlDialect,
+  tableName: string,
+  reference: SyncTableReference,
+  changes: PushChanges,
+): Promise<SyncValidationError[]> {
+  const items = pushedRows(changes[tableName]);
+  if (items.length === 0) {
+    return [];
+  }
+
+  const target = changes[reference.table];
+  const deleted = new Set(target?.deleted ?? []);
+  const rows = new Map(pushedRows(target).map((row) => [row.id, row]));
+  const unknown = [
+    ...new Set(items.map((item) => item[reference.column] as string)),
+  ].filter((id) => !rows.has(id));
+  if (unknown.length > 0) {
+    const existing = await findRowsWhereIn(
+      tx,
+      dialect,
+      reference.table,
+      'id',
+      unknown,
+      reference.sameColumn ? ['id', reference.sameColumn] : ['id'],
+    );
+    for (const row of existing) {
+      rows.set(row.id, row);
+    }
+  }
+
+  const errors: SyncValidationError[] = [];
+  for (const item of items) {
+    const id = item[reference.column] as string;
+    const row = deleted.has(id) ? undefined : rows.get(id);
+    if (!row) {
+      errors.push({
+        table: tableName,
+        id: item.id,
+        field: reference.column,
+        reason: `References ${reference.table} ${id}, which does not exist`,
+      });
+    } else if (
+      reference.sameColumn &&
+      row[reference.sameColumn] !== item[reference.sameColumn]
+    ) {
+      errors.push({
+        table: tableName,
+        id: item.id,
+        field: reference.sameColumn,
+        reason: `Must match ${reference.sameColumn} of ${reference.table} ${id}`,
+      });
+    }
+  }
+  return errors;
+}
+
+// Rows the push deletes that stored rows of `tableName` still point at. Rows the
+// push deletes too, or points elsewhere, no longer count.
+async function findReferencedDeletions(
+  tx: Prisma.TransactionClient,
+  dialect: SqlDialect,
+  tableName: string,
+  reference: SyncTableReference,
+  changes: PushChanges,
+): Promise<SyncValidationError[]> {
+  const deleted = changes[reference.table]?.deleted ?? [];
+  if (deleted.length === 0) {
+    return [];
+  }
+
+  const released = new Set([
+    ...(changes[tableName]?.deleted ?? []),
+    ...pushedRows(changes[tableName]).map((item) => item.id),
+  ]);
+  const referencing = await findRowsWhereIn(
+    tx,
+    dialect,
+    tableName,
+    reference.column,
+    deleted,
+    ['id', reference.column],
+  );
+  return referencing
+    .filter((row) => !released.has(row.id))
+    .map((row) => ({
+      table: reference.table,
+      id: row[reference.column] as string,
+      field: null,
+      reason: `Still referenced by ${tableName} ${row.id}`,
+    }));
+}
+
+// 🔗 Every way a push would leave a registered reference dangling, in the
+// validation pipe's error format. Runs in the push transaction, so rows are
+// checked against the state the push is applied to.
+export async function findReferenceErrors(
+  tx: Prisma.TransactionClient,
+  dialect: SqlDialect,
+  changes: PushChanges,
+): Promise<SyncValidationError[]> {
+  const errors: SyncValidationError[] = [];
+  for (const table of SYNC_TABLES) {
+    for (const reference of table.references ?? []) {
+      errors.push(
+        ...(await findDanglingReferences(
+          tx,
+          dialect,
+          table.name,
+          reference,
+          changes,
+        )),
+        ...(await findReferencedDeletions(
+          tx,
+          dialect,
+          table.name,
+          reference,
+          changes,
+        )),
+      );
+    }
+  }
+  return errors;
+}
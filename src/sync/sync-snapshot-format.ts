@@ -0,0 +1,45 @@
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Layout of snapshot files. Bump it for incompatible changes, such as a compact
+// binary encoding of `changes`; clients name the version they read when they
+// download a snapshot.
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+// 📦 A snapshot file: this envelope as gzip-compressed JSON
+export interface SyncSnapshot {
+  format_version: number;
+  // How `changes` is encoded; 'json' is the only encoding of format version 1
+  encoding: 'json';
+  // Client schema version the rows are shaped for
+  schema_version: number;
+  location_ids: string[];
+  // Change sequence the rows are consistent at. A device that loaded the
+  // snapshot continues with pulls from here, as if it had pulled up to it.
+  timestamp: number;
+  created_at: string;
+  // Every row in the locations, in the format of a pull response
+  changes: Record<
+    string,
+    { created: any[]; updated: any[]; deleted: string[] }
+  >;
+}
+
+export async function encodeSnapshot(snapshot: SyncSnapshot): Promise<Buffer> {
+  return gzipAsync(Buffer.from(JSON.stringify(snapshot)));
+}
+
+export async function decodeSnapshot(data: Buffer): Promise<SyncSnapshot> {
+  const snapshot = JSON.parse(
+    (await gunzipAsync(data)).toString('utf8'),
+  ) as SyncSnapshot;
+  if (snapshot.format_version !== SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot format version ${snapshot.format_version}`,
+    );
+  }
+  return snapshot;
+}
@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SyncSnapshotService } from './sync-snapshot.service';
+import { SyncService } from './sync.service';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  decodeSnapshot,
+  SNAPSHOT_FORMAT_VERSION,
+} from './sync-snapshot-format';
+import { LATEST_SCHEMA_VERSION } from './schema-versions';
+import { createFakePrisma } from '../../test/fake-prisma';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('SyncSnapshotService', () => {
+  let service: SyncSnapshotService;
+  let directory: string;
+  let pulls: { locationIds: string[]; options: any }[];
+  let sequence: number;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'sync-snapshots-'));
+    process.env.SYNC_SNAPSHOT_DIR = directory;
+    pulls = [];
+    sequence = 42;
+    const syncService = {
+      readSnapshot: (scope: any, options: any) => {
+        pulls.push({ locationIds: scope.locationIds, options });
+        return Promise.resolve({
+          changes: {
+            mh_off_orders: {
+              created: scope.locationIds.map((location_id: string) => ({
+                id: `order-${location_id}`,
+                location_id,
+              })),
+              updated: [],
+              deleted: [],
+            },
+          },
+          timestamp: sequence,
+          has_more: false,
+          cursor: null,
+        });
+      },
+    };
+    const fake = createFakePrisma();
+    const devices = [
+      { id: 'till-1', role: 'device', locations: ['loc-2', 'loc-1'] },
+      { id: 'till-2', role: 'device', locations: ['loc-1', 'loc-2'] },
+      { id: 'till-3', role: 'device', locations: ['loc-3'] },
+      { id: 'ops', role: 'admin', locations: [] },
+    ];
+    for (const { id, role, locations } of devices) {
+      fake.insert('sync_devices', { id, role, revoked_at: null });
+      fake.insert(
+        'sync_device_locations',
+        ...locations.map((location_id) => ({ device_id: id, location_id })),
+      );
+    }
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncSnapshotService,
+        { provide: PrismaService, useValue: fake.prisma },
+        { provide: SyncService, useValue: syncService },
+      ],
+    }).compile();
+
+    service = module.get<SyncSnapshotService>(SyncSnapshotService);
+  });
+
+  afterEach(async () => {
+    delete process.env.SYNC_SNAPSHOT_DIR;
+    jest.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('builds one snapshot per location set of the devices', async () => {
+    await expect(service.buildAll()).resolves.toBe(2);
+
+    expect(pulls).toEqual([
+      {
+        locationIds: ['loc-1', 'loc-2'],
+        options: { schemaVersion: LATEST_SCHEMA_VERSION },
+      },
+      {
+        locationIds: ['loc-3'],
+        options: { schemaVersion: LATEST_SCHEMA_VERSION },
+      },
+    ]);
+  });
+
+  it('writes a versioned envelope stamped with the pull timestamp', async () => {
+    const info = await service.build(['loc-3']);
+
+    const file = await readFile(
+      join(directory, `${info.key}.v${SNAPSHOT_FORMAT_VERSION}.json.gz`),
+    );
+    expect(file.length).toBe(info.bytes);
+    await expect(decodeSnapshot(file)).resolves.toEqual({
+      format_version: SNAPSHOT_FORMAT_VERSION,
+      encoding: 'json',
+      schema_version: LATEST_SCHEMA_VERSION,
+      location_ids: ['loc-3'],
+      timestamp: 42,
+      created_at: info.created_at,
+      changes: {
+        mh_off_orders: {
+          created: [{ id: 'order-loc-3', location_id: 'loc-3' }],
+          updated: [],
+          deleted: [],
+        },
+      },
+    });
+  });
+
+  it('serves the stored snapshot until it is too old', async () => {
+    await service.buildAll();
+    sequence = 50;
+
+    await expect(service.find(['loc-2', 'loc-1'])).resolves.toMatchObject({
+      timestamp: 42,
+    });
+    expect(pulls).toHaveLength(2);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 25 * HOUR_MS);
+    await expect(service.find(['loc-1', 'loc-2'])).resolves.toMatchObject({
+      timestamp: 50,
+    });
+    expect(pulls).toHaveLength(3);
+  });
+
+  it('builds a missing snapshot once for concurrent requests', async () => {
+    const [first, second] = await Promise.all([
+      service.find(['loc-9']),
+      service.find(['loc-9']),
+    ]);
+
+    expect(first).toEqual(second);
+    expect(pulls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { Readable } from 'stream';
+import { PrismaService } from '../prisma/prisma.service';
+import { SyncService } from './sync.service';
+import { LATEST_SCHEMA_VERSION } from './schema-versions';
+import {
+  encodeSnapshot,
+  SNAPSHOT_FORMAT_VERSION,
+} from './sync-snapshot-format';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// What is known about a snapshot file without reading it, kept next to it
+export interface SnapshotInfo {
+  // Names the files of the location set
+  key: string;
+  location_ids: string[];
+  format_version: number;
+  schema_version: number;
+  timestamp: number;
+  created_at: string;
+  // Size of the compressed file
+  bytes: number;
+}
+
+// Files of a location set are named after a hash of its sorted ids, which
+// need not be safe to use in a path
+function scopeKey(locationIds: string[]): string {
+  return createHash('sha256')
+    .update(locationIds.join('\n'))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+// 📦 Builds compressed snapshots of everything a device pulls on its first sync,
+// one per set of locations devices are bound to, so onboarding a device reads a
+// file instead of running a pull from epoch against the database.
+@Injectable()
+export class SyncSnapshotService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SyncSnapshotService.name);
+  private timer?: NodeJS.Timeout;
+
+  private readonly directory =
+    process.env.SYNC_SNAPSHOT_DIR ?? join(process.cwd(), 'snapshots');
+  private readonly intervalMs = Number(
+    process.env.SYNC_SNAPSHOT_INTERVAL_MS ?? 6 * HOUR_MS,
+  );
+  // Older snapshots are rebuilt before they are served. Keep it well below the
+  // tombstone retention, or devices starting from one could miss deletions.
+  private readonly maxAgeMs =
+    Number(process.env.SYNC_SNAPSHOT_MAX_AGE_HOURS ?? 24) * HOUR_MS;
+
+  // Builds in progress per location set, shared by concurrent requests
+  private readonly building = new Map<string, Promise<SnapshotInfo>>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly syncService: SyncService,
+  ) {}
+
+  onModuleInit() {
+    if (this.intervalMs <= 0) {
+      this.logger.log(
+        'Periodic snapshots disabled (SYNC_SNAPSHOT_INTERVAL_MS <= 0)',
+      );
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.buildAll().catch((error) =>
+        this.logger.error('Scheduled snapshot build failed', error),
+      );
+    }, this.intervalMs);
+    // Don't keep the process alive just for housekeeping
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  // 🔁 Rebuild the snapshot of every location set an active device is bound to.
+  // A failed set is logged and retried on the next run.
+  async buildAll(): Promise<number> {
+    let built = 0;
+    for (const locationIds of await this.deviceLocationSets()) {
+      try {
+        await this.build(locationIds);
+        built++;
+      } catch (error) {
+        this.logger.error({
+          message: 'Could not build snapshot',
+          locationIds,
+          error,
+        });
+      }
+    }
+    return built;
+  }
+
+  // Snapshot of all rows in `locationIds`, consistent at the change sequence it
+  // is stamped with
+  build(locationIds: string[]): Promise<SnapshotInfo> {
+    const sorted = [...new Set(locationIds)].sort();
+    const key = scopeKey(sorted);
+    const pending = this.building.get(key);
+    if (pending) {
+      return pending;
+    }
+    const build = this.writeSnapshot(key, sorted).finally(() =>
+      this.building.delete(key),
+    );
+    this.building.set(key, build);
+    return build;
+  }
+
+  // Current snapshot of a location set. One that is missing, too old or shaped
+  // for another schema version is built first.
+  async find(locationIds: string[]): Promise<SnapshotInfo> {
+    const sorted = [...new Set(locationIds)].sort();
+    const info = await this.readInfo(scopeKey(sorted));
+    const fresh =
+      info !== null &&
+      info.format_version === SNAPSHOT_FORMAT_VERSION &&
+      info.schema_version === LATEST_SCHEMA_VERSION &&
+      Date.now() - new Date(info.created_at).getTime() < this.maxAgeMs;
+    return fresh ? info : this.build(sorted);
+  }
+
+  // The compressed snapshot file. A rebuild replaces the file rather than
+  // rewriting it, so an open stream keeps reading the snapshot it started on.
+  open(info: SnapshotInfo): Readable {
+    return createReadStream(this.dataPath(info.key));
+  }
+
+  private async writeSnapshot(
+    key: string,
+    locationIds: string[],
+  ): Promise<SnapshotInfo> {
+    const startedAt = Date.now();
+    // Reads every table up to one sequence, like a pull from epoch without a limit
+    const { changes, timestamp } = await this.syncService.readSnapshot(
+      { deviceId: `snapshot:${key}`, locationIds },
+      { schemaVersion: LATEST_SCHEMA_VERSION },
+    );
+    const createdAt = new Date().toISOString();
+    const data = await encodeSnapshot({
+      format_version: SNAPSHOT_FORMAT_VERSION,
+      encoding: 'json',
+      schema_version: LATEST_SCHEMA_VERSION,
+      location_ids: locationIds,
+      timestamp,
+      created_at: createdAt,
+      changes,
+    });
+    const info: SnapshotInfo = {
+      key,
+      location_ids: locationIds,
+      format_version: SNAPSHOT_FORMAT_VERSION,
+      schema_version: LATEST_SCHEMA_VERSION,
+      timestamp,
+      created_at: createdAt,
+      bytes: data.length,
+    };
+
+    await mkdir(this.directory, { recursive: true });
+    // The file goes first: its info never describes a snapshot that isn't there yet
+    await this.replaceFile(this.dataPath(key), data);
+    await this.replaceFile(this.infoPath(key), JSON.stringify(info));
+    this.logger.log({
+      message: 'Snapshot built',
+      locationIds,
+      timestamp,
+      bytes: data.length,
+      durationMs: Date.now() - startedAt,
+    });
+    return info;
+  }
+
+  private async readInfo(key: string): Promise<SnapshotInfo | null> {
+    try {
+      return JSON.parse(
+        await readFile(this.infoPath(key), 'utf8'),
+      ) as SnapshotInfo;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Write to a temporary file and rename it over the old one, so readers never
+  // see a partly written file
+  private async replaceFile(path: string, data: Buffer | string) {
+    const temporary = `${path}.${process.pid}.tmp`;
+    await writeFile(temporary, data);
+    await rename(temporary, path);
+  }
+
+  // Distinct location sets of devices that are not revoked. Admin keys don't sync.
+  private async deviceLocationSets(): Promise<string[][]> {
+    const devices = await this.prisma.sync_devices.findMany({
+      where: { role: 'device', revoked_at: null },
+      select: { id: true },
+    });
+    const bindings = await this.prisma.sync_device_locations.findMany({
+      where: { device_id: { in: devices.map((device) => device.id) } },
+      select: { device_id: true, location_id: true },
+    });
+    const locations = new Map<string, string[]>(
+      devices.map((device) => [device.id, []]),
+    );
+    for (const binding of bindings) {
+      locations.get(binding.device_id)?.push(binding.location_id);
+    }
+    const sets = new Map<string, string[]>();
+    for (const locationIds of locations.values()) {
+      const sorted = locationIds.sort();
+      sets.set(scopeKey(sorted), sorted);
+    }
+    return [...sets.values()];
+  }
+
+  private dataPath(key: string) {
+    return join(this.directory, `${key}.v${SNAPSHOT_FORMAT_VERSION}.json.gz`);
+  }
+
+  private infoPath(key: string) {
+    return join(this.directory, `${key}.v${SNAPSHOT_FORMAT_VERSION}.info.json`);
+  }
+}
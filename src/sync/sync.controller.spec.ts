@@ -1,18 +1,172 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { Readable } from 'stream';
+import { gzipSync } from 'zlib';
+import { App } from 'supertest/types';
 import { SyncController } from './sync.controller';
+import { SyncService } from './sync.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { DevicesService } from '../devices/devices.service';
+import { DeviceStatesService } from '../devices/device-states.service';
+import { DeviceAuthGuard } from '../devices/device-auth.guard';
+import { SyncSnapshotService } from './sync-snapshot.service';
 
 describe('SyncController', () => {
+  let app: INestApplication<App>;
   let controller: SyncController;
+  let recorded: any[];
+  let pull: jest.Mock;
+  let findSnapshot: jest.Mock;
 
   beforeEach(async () => {
+    recorded = [];
+    pull = jest.fn(() => Promise.resolve({ changes: {}, timestamp: 100 }));
+    findSnapshot = jest.fn(() =>
+      Promise.resolve({ key: 'k', format_version: 1, timestamp: 100 }),
+    );
+    const scope = { deviceId: 'till-1', locationIds: ['loc-1'] };
     const module: TestingModule = await Test.createTestingModule({
       controllers: [SyncController],
-    }).compile();
+      providers: [
+        {
+          provide: SyncService,
+          useValue: {
+            pull,
+            push: () => Promise.resolve({ timestamp: 101 }),
+          },
+        },
+        { provide: PrismaService, useValue: {} },
+        {
+          provide: DevicesService,
+          useValue: { getScope: () => Promise.resolve(scope) },
+        },
+        {
+          provide: DeviceStatesService,
+          useValue: {
+            recordSync: (activity: any) => {
+              recorded.push(activity);
+              return Promise.resolve();
+            },
+          },
+        },
+        {
+          provide: SyncSnapshotService,
+          useValue: {
+            find: findSnapshot,
+            open: () => Readable.from([gzipSync('{"timestamp":100}')]),
+          },
+        },
+      ],
+    })
+      .overrideGuard(DeviceAuthGuard)
+      .useValue({
+        canActivate: (context: any) => {
+          context.switchToHttp().getRequest().device = {
+            id: 'till-1',
+            role: 'device',
+          };
+          return true;
+        },
+      })
+      .compile();
 
+    app = module.createNestApplication();
+    await app.init();
     controller = module.get<SyncController>(SyncController);
   });
 
+  afterEach(async () => {
+    await app.close();
+  });
+
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('records the outcome of pulls in the device sync state', async () => {
+    await request(app.getHttpServer())
+      .get('/sync?last_pulled_at=0&schema_version=3')
+      .set('X-App-Version', '2.4.0')
+      .expect(200);
+
+    expect(recorded).toEqual([
+      {
+        operation: 'pull',
+        outcome: 'success',
+        scope: { deviceId: 'till-1', locationIds: ['loc-1'] },
+        appVersion: '2.4.0',
+        schemaVersion: 3,
+        error: undefined,
+      },
+    ]);
+  });
+
+  it('records the first app version of a repeated X-App-Version header', async () => {
+    // Node joins a header sent twice with a comma
+    await request(app.getHttpServer())
+      .get('/sync?last_pulled_at=0')
+      .set('X-App-Version', '2.4.0, 2.5.0')
+      .expect(200);
+
+    expect(recorded).toEqual([
+      expect.objectContaining({ operation: 'pull', appVersion: '2.4.0' }),
+    ]);
+  });
+
+  it('records pushes the validation pipe rejects as failed', async () => {
+    await request(app.getHttpServer())
+      .post('/sync?schema_version=3')
+      .send({ mh_products: { created: 'not a list' } })
+      .expect(400);
+
+    expect(recorded).toEqual([
+      expect.objectContaining({
+        operation: 'push',
+        outcome: 'error',
+        schemaVersion: 3,
+        error: 'Invalid push payload',
+      }),
+    ]);
+  });
+
+  it('pulls from the change sequence in last_pulled_at', async () => {
+    await request(app.getHttpServer())
+      .get('/sync?last_pulled_at=42')
+      .expect(200);
+    await request(app.getHttpServer()).get('/sync').expect(200);
+
+    expect(pull.mock.calls.map(([lastPulledAt]) => lastPulledAt)).toEqual([
+      42,
+      undefined,
+    ]);
+  });
+
+  it.each(['null', 'abc', '1.5', '-1', ''])(
+    'rejects last_pulled_at=%s with a 400',
+    async (value) => {
+      await request(app.getHttpServer())
+        .get(`/sync?last_pulled_at=${value}`)
+        .expect(400);
+      await request(app.getHttpServer())
+        .post(`/sync?last_pulled_at=${value}`)
+        .send({})
+        .expect(400);
+
+      expect(pull).not.toHaveBeenCalled();
+    },
+  );
+
+  it('serves the snapshot only to clients on the latest schema', async () => {
+    await request(app.getHttpServer())
+      .get('/sync/snapshot?schema_version=3')
+      .expect(200, { timestamp: 100 });
+    // Clients that don't send a version are on version 1
+    await request(app.getHttpServer()).get('/sync/snapshot').expect(404);
+    await request(app.getHttpServer())
+      .get('/sync/snapshot?schema_version=1')
+      .expect(404);
+
+    expect(findSnapshot).toHaveBeenCalledTimes(1);
+  });
 });
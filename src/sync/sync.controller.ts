@@ -1,22 +1,107 @@
-import { Controller, Get, Post, Query, Body } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBody } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Sse,
+  Query,
+  Body,
+  ParseIntPipe,
+  BadRequestException,
+  UseGuards,
+  MessageEvent,
+  ValidationPipe,
+  ServiceUnavailableException,
+  NotFoundException,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiBody,
+  ApiExtraModels,
+  ApiBearerAuth,
+  ApiHeader,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import { from, interval, map, merge, Observable, switchMap } from 'rxjs';
 import { SyncService } from './sync.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { DevicesService } from '../devices/devices.service';
+import { DeviceAuthGuard } from '../devices/device-auth.guard';
+import { CurrentDevice } from '../devices/device-auth.decorators';
+import type { AuthenticatedDevice } from '../devices/authenticated-device';
+import { TrackSync } from '../devices/device-sync-state.interceptor';
+import { SYNC_TABLES } from './tables';
+import { SyncChangesValidationPipe } from './sync-changes-validation.pipe';
+import { ParseLastPulledAtPipe } from './last-pulled-at.pipe';
+import { ReserveOrderNumbersDto } from './dto/reserve-order-numbers.dto';
+import { LATEST_SCHEMA_VERSION, parseClientMigration } from './schema-versions';
+import { SyncSnapshotService } from './sync-snapshot.service';
+import { SNAPSHOT_FORMAT_VERSION } from './sync-snapshot-format';
+
+const MAX_PULL_PAGE_SIZE = Number(process.env.SYNC_MAX_PULL_PAGE_SIZE ?? 5000);
+
+// Keep-alive on idle event streams, so proxies and load balancers don't drop them
+const EVENTS_HEARTBEAT_MS = Number(
+  process.env.SYNC_EVENTS_HEARTBEAT_MS ?? 30000,
+);
+
+// Push body: one { created, updated, deleted } entry per registered table
+const PUSH_BODY_SCHEMA = {
+  type: 'object',
+  properties: Object.fromEntries(
+    SYNC_TABLES.map((table) => [
+      table.name,
+      {
+        type: 'object',
+        properties: {
+          created: {
+            type: 'array',
+            items: { $ref: getSchemaPath(table.recordDto) },
+          },
+          updated: {
+            type: 'array',
+            items: { $ref: getSchemaPath(table.recordDto) },
+          },
+          deleted: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    ]),
+  ),
+};
 
 @ApiTags('sync')
+@ApiBearerAuth()
 @Controller('sync')
+@UseGuards(DeviceAuthGuard)
 export class SyncController {
   constructor(
     private readonly syncService: SyncService,
     private readonly prisma: PrismaService,
+    private readonly devicesService: DevicesService,
+    private readonly snapshotService: SyncSnapshotService,
   ) {}
 
   @Get('health')
   @ApiOperation({ summary: 'Check database connection and health status' })
-  @ApiResponse({ status: 200, description: 'Database connection is healthy' })
-  @ApiResponse({ status: 500, description: 'Database connection failed' })
-  async healthCheck() {
+  @ApiResponse({
+    status: 200,
+    description:
+      'Database connection is healthy. Connection details are only included for admins',
+  })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({ status: 503, description: 'Database connection failed' })
+  async healthCheck(@CurrentDevice() device: AuthenticatedDevice) {
     try {
+      if (device.role !== 'admin') {
+        await this.prisma.$queryRawUnsafe('SELECT 1');
+        return { status: 'connected', timestamp: new Date().toISOString() };
+      }
+
       // Helper to convert BigInt to number/string
       const convertBigInt = (value: any): any => {
         if (typeof value === 'bigint') {
@@ -36,84 +121,286 @@ export class SyncController {
       };
 
       // Test database connection
-      const dbInfo = await this.prisma.$queryRawUnsafe(`
-        SELECT 
-          DATABASE() as database_name,
-          USER() as user,
-          CONNECTION_ID() as connection_id,
-          NOW() as server_time
-      `) as any[];
-      
-      // Check table existence
-      const tables = await this.prisma.$queryRawUnsafe(`
-        SELECT TABLE_NAME 
-        FROM information_schema.TABLES 
-        WHERE TABLE_SCHEMA = DATABASE() 
-        AND TABLE_NAME IN ('mh_off_orders', 'mh_products')
-      `) as any[];
-      
-      // Count records
-      const orderCount = await this.prisma.$queryRawUnsafe(`SELECT COUNT(*) as count FROM mh_off_orders`) as any[];
-      const productCount = await this.prisma.$queryRawUnsafe(`SELECT COUNT(*) as count FROM mh_products`) as any[];
-      
+      const { dialect } = this.prisma;
+      const dbInfo = await this.prisma.$queryRawUnsafe<any[]>(
+        dialect.connectionInfo,
+      );
+
+      // Check table existence (row counts are left out: COUNT(*) scans whole tables)
+      const tableNames = SYNC_TABLES.map((table) => table.name);
+      const tables = await this.prisma.$queryRawUnsafe<{ name: string }[]>(
+        dialect.existingTables(tableNames.length),
+        ...tableNames,
+      );
+
       return {
         status: 'connected',
         database: convertBigInt(dbInfo[0]),
-        tables: tables.map(t => t.TABLE_NAME),
-        counts: {
-          orders: convertBigInt(orderCount[0]?.count) || 0,
-          products: convertBigInt(productCount[0]?.count) || 0,
-        },
+        tables: tables.map((t) => t.name),
         timestamp: new Date().toISOString(),
       };
     } catch (error: any) {
-      return {
+      // Error details are only for admins, like the connection details
+      throw new ServiceUnavailableException({
         status: 'error',
-        error: error.message,
+        ...(device.role === 'admin' ? { error: error.message } : {}),
         timestamp: new Date().toISOString(),
-      };
+      });
     }
   }
 
   @Get()
+  @TrackSync('pull')
   @ApiOperation({ summary: 'Pull data from server since last sync' })
-  @ApiQuery({ name: 'last_pulled_at', required: false, description: 'Timestamp of last sync (milliseconds since epoch)' })
-  @ApiResponse({ status: 200, description: 'Returns changes since last sync' })
-  async pull(@Query('last_pulled_at') lastPulledAt: string) {
-    return this.syncService.pull(lastPulledAt);
+  @ApiQuery({
+    name: 'last_pulled_at',
+    required: false,
+    description:
+      '`timestamp` returned by the last completed pull (server change sequence). Omit it on the first pull',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: `Page size (1-${MAX_PULL_PAGE_SIZE}). Omit to receive all changes in one response`,
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description: 'Continuation cursor returned by the previous page',
+  })
+  @ApiQuery({
+    name: 'schema_version',
+    required: false,
+    description:
+      'Client database schema version, 1 when omitted. Tables added in later versions are left out',
+  })
+  @ApiHeader({
+    name: 'X-App-Version',
+    required: false,
+    description: 'Client app version, shown in the device sync-state report',
+  })
+  @ApiQuery({
+    name: 'migration',
+    required: false,
+    description:
+      'WatermelonDB migration since the last sync as JSON, e.g. `{"from":1,"tables":["mh_stock_movements"],"columns":[]}`. New tables and columns are pulled in full',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      "Returns changes since last sync. While `has_more` is true, call again with `cursor`; commit `timestamp` only after the last page. `reset: true` means last_pulled_at is too old to continue from (the device's locations changed since, or deletions it had not pulled were purged): clear the synced tables before applying the first page, which starts over in full",
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid last_pulled_at, limit, schema_version or migration',
+  })
+  async pull(
+    @CurrentDevice() device: AuthenticatedDevice,
+    @Query('last_pulled_at', ParseLastPulledAtPipe) lastPulledAt?: number,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+    @Query('cursor') cursor?: string,
+    @Query('schema_version', new ParseIntPipe({ optional: true }))
+    schemaVersion?: number,
+    @Query('migration') migration?: string,
+  ) {
+    if (limit !== undefined && (limit < 1 || limit > MAX_PULL_PAGE_SIZE)) {
+      throw new BadRequestException(
+        `limit must be between 1 and ${MAX_PULL_PAGE_SIZE}`,
+      );
+    }
+    const scope = await this.devicesService.getScope(device.id);
+    return this.syncService.pull(lastPulledAt, scope, {
+      limit,
+      cursor,
+      schemaVersion,
+      migration: parseClientMigration(migration),
+    });
+  }
+
+  @Get('snapshot')
+  @ApiOperation({
+    summary:
+      "Download every row in the device's locations, for a device's first sync",
+  })
+  @ApiQuery({
+    name: 'format_version',
+    required: false,
+    description: `Snapshot format the client reads; this server writes version ${SNAPSHOT_FORMAT_VERSION}`,
+  })
+  @ApiQuery({
+    name: 'schema_version',
+    required: false,
+    description:
+      'Client database schema version, 1 when omitted; the snapshot is only served to clients on the schema it was built for',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Gzip-compressed JSON envelope (`Content-Encoding: gzip`) with `changes` in pull format and the `timestamp` they are consistent at. Apply it, then continue with pulls from `timestamp`',
+  })
+  @ApiResponse({ status: 400, description: 'Unsupported format_version' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({
+    status: 404,
+    description:
+      "No snapshot for the client's schema version; pull from scratch instead",
+  })
+  async snapshot(
+    @CurrentDevice() device: AuthenticatedDevice,
+    @Res({ passthrough: true }) res: Response,
+    @Query('format_version', new ParseIntPipe({ optional: true }))
+    formatVersion?: number,
+    @Query('schema_version', new ParseIntPipe({ optional: true }))
+    schemaVersion?: number,
+  ): Promise<StreamableFile> {
+    if (
+      formatVersion !== undefined &&
+      formatVersion !== SNAPSHOT_FORMAT_VERSION
+    ) {
+      throw new BadRequestException(
+        `Unsupported snapshot format_version ${formatVersion}; this server writes version ${SNAPSHOT_FORMAT_VERSION}`,
+      );
+    }
+    // Snapshots hold every table of the latest schema. Clients that don't send a
+    // version count as version 1, as they do for pulls.
+    const version = schemaVersion ?? 1;
+    if (version !== LATEST_SCHEMA_VERSION) {
+      throw new NotFoundException(
+        `No snapshot for schema version ${version}; pull from scratch instead`,
+      );
+    }
+    const scope = await this.devicesService.getScope(device.id);
+    const info = await this.snapshotService.find(scope.locationIds);
+    res.setHeader('Content-Encoding', 'gzip');
+    res.setHeader('X-Snapshot-Format-Version', String(info.format_version));
+    res.setHeader('X-Snapshot-Timestamp', String(info.timestamp));
+    return new StreamableFile(this.snapshotService.open(info), {
+      type: 'application/json',
+    });
   }
 
   @Post()
+  @TrackSync('push')
+  @ApiExtraModels(...SYNC_TABLES.map((table) => table.recordDto))
   @ApiOperation({ summary: 'Push data from client to server' })
-  @ApiQuery({ name: 'last_pulled_at', required: false, description: 'Timestamp of last sync' })
+  @ApiQuery({
+    name: 'last_pulled_at',
+    required: false,
+    description:
+      '`timestamp` of the last completed pull, used to detect conflicting server changes',
+  })
+  @ApiQuery({
+    name: 'batch_id',
+    required: false,
+    description:
+      'Client-generated id of this push. Retrying with the same id returns the original result without re-applying it',
+  })
+  @ApiQuery({
+    name: 'schema_version',
+    required: false,
+    description: 'Client database schema version; omitted counts as 1',
+  })
+  @ApiHeader({
+    name: 'X-App-Version',
+    required: false,
+    description: 'Client app version, shown in the device sync-state report',
+  })
   @ApiBody({
     description: 'Changes to sync',
-    schema: {
-      type: 'object',
-      properties: {
-        mh_off_orders: {
-          type: 'object',
-          properties: {
-            created: { type: 'array', items: { type: 'object' } },
-            updated: { type: 'array', items: { type: 'object' } },
-            deleted: { type: 'array', items: { type: 'string' } },
-          },
-        },
-        mh_products: {
-          type: 'object',
-          properties: {
-            created: { type: 'array', items: { type: 'object' } },
-            updated: { type: 'array', items: { type: 'object' } },
-            deleted: { type: 'array', items: { type: 'string' } },
-          },
-        },
-      },
-    },
+    schema: PUSH_BODY_SCHEMA,
   })
   @ApiResponse({ status: 200, description: 'Data synced successfully' })
-  @ApiResponse({ status: 400, description: 'Invalid request data' })
-  async push(@Body() changes: any, @Query('last_pulled_at') lastPulledAt: string) {
-    return this.syncService.push(changes, lastPulledAt);
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid push payload (`errors` lists each table, record id, field and reason) or last_pulled_at',
+  })
+  @ApiResponse({
+    status: 403,
+    description: "Changes touch rows outside the device's locations",
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Rows changed on the server after last_pulled_at; pull and retry',
+  })
+  @ApiResponse({
+    status: 426,
+    description:
+      'Client schema version too old to push; `min_schema_version` is the oldest accepted',
+  })
+  async push(
+    @CurrentDevice() device: AuthenticatedDevice,
+    @Body(SyncChangesValidationPipe) changes: Record<string, any>,
+    @Query('last_pulled_at', ParseLastPulledAtPipe) lastPulledAt?: number,
+    @Query('batch_id') batchId?: string,
+    @Query('schema_version', new ParseIntPipe({ optional: true }))
+    schemaVersion?: number,
+  ) {
+    if (batchId !== undefined && !/^[A-Za-z0-9_-]{1,64}$/.test(batchId)) {
+      throw new BadRequestException(
+        'batch_id must be 1-64 letters, digits, "_" or "-"',
+      );
+    }
+    const scope = await this.devicesService.getScope(device.id);
+    return this.syncService.push(
+      changes,
+      lastPulledAt,
+      scope,
+      batchId,
+      schemaVersion,
+    );
   }
-}
 
+  @Post('order-numbers')
+  @ApiOperation({
+    summary: 'Reserve a range of order numbers for offline receipts',
+  })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Inclusive range `first`-`last`. Orders pushed with a number from it keep that number as order_no',
+  })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({
+    status: 403,
+    description: "Location is not one of the device's locations",
+  })
+  async reserveOrderNumbers(
+    @CurrentDevice() device: AuthenticatedDevice,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    dto: ReserveOrderNumbersDto,
+  ) {
+    const scope = await this.devicesService.getScope(device.id);
+    return this.syncService.reserveOrderNumbers(
+      scope,
+      dto.location_id,
+      dto.count,
+    );
+  }
+
+  @Sse('events')
+  @ApiOperation({ summary: 'Stream change notifications (Server-Sent Events)' })
+  @ApiResponse({
+    status: 200,
+    description:
+      "`changes` events name the tables a committed push touched within the device's locations and the sequence it was stamped with; pull to fetch the rows. `heartbeat` events keep idle connections open",
+  })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  events(
+    @CurrentDevice() device: AuthenticatedDevice,
+  ): Observable<MessageEvent> {
+    // Scope is resolved once per connection; devices reconnect to pick up new location bindings
+    return from(this.devicesService.getScope(device.id)).pipe(
+      switchMap((scope) =>
+        merge(
+          this.syncService.changeEvents(scope),
+          interval(EVENTS_HEARTBEAT_MS).pipe(
+            map((): MessageEvent => ({ type: 'heartbeat', data: {} })),
+          ),
+        ),
+      ),
+    );
+  }
+}
@@ -1,9 +1,22 @@
 import { Module } from '@nestjs/common';
 import { SyncController } from './sync.controller';
 import { SyncService } from './sync.service';
+import { SyncMaintenanceService } from './sync-maintenance.service';
+import { SyncSnapshotService } from './sync-snapshot.service';
+import { InMemorySyncEventBus, SYNC_EVENT_BUS } from './sync-event-bus';
+import { DevicesModule } from '../devices/devices.module';
+import { MetricsModule } from '../metrics/metrics.module';
 
 @Module({
+  imports: [DevicesModule, MetricsModule],
   controllers: [SyncController],
-  providers: [SyncService],
+  providers: [
+    SyncService,
+    SyncMaintenanceService,
+    SyncSnapshotService,
+    // Single-instance fan-out; swap for a shared backend when running several instances
+    { provide: SYNC_EVENT_BUS, useClass: InMemorySyncEventBus },
+  ],
+  exports: [SyncService],
 })
 export class SyncModule {}
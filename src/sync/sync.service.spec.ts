@@ -1,18 +1,1226 @@
+import { Logger } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { SyncService } from './sync.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { InMemorySyncEventBus, SYNC_EVENT_BUS } from './sync-event-bus';
+import { SyncMetrics } from '../metrics/sync-metrics';
+import { DevicesService } from '../devices/devices.service';
+import { LATEST_SCHEMA_VERSION } from './schema-versions';
+import { mhOffOrdersTable } from './tables/mh-off-orders.table';
+import { mysqlDialect, SqlDialect, sqliteDialect } from '../prisma/sql-dialect';
+import {
+  createFakePrisma,
+  FakePrisma,
+  FakePrismaOptions,
+} from '../../test/fake-prisma';
+
+// Fake database whose change sequence is at 100
+const createFake = (options?: FakePrismaOptions) => {
+  const fake = createFakePrisma(options);
+  fake.insert('sync_sequence', { name: 'changes', value: 100 });
+  return fake;
+};
+
+const scope = { deviceId: 'till-1', locationIds: ['loc-1'] };
+// Pull options of a client on the current schema, which has every table
+const latest = { schemaVersion: LATEST_SCHEMA_VERSION };
+
+const order = (id: string) => ({
+  id,
+  location_id: 'loc-1',
+  customer_id: null,
+  order_no: `NO-${id}`,
+  order_type_id: 'type-1',
+  order_date: Date.now(),
+  order_time: '12:30:00',
+  ip_address: '127.0.0.1',
+  user_agent: 'jest',
+  _status: 'created',
+  _changed: '',
+});
+
+const product = (id: string) => ({
+  id,
+  product_code: `CODE-${id}`,
+  product_name: `Product ${id}`,
+  description: '',
+  price: 9.5,
+  stock_quantity: 3,
+  is_active: true,
+  _status: 'created',
+  _changed: '',
+});
+
+const orderItem = (id: string, orderId: string, productId = 'p1') => ({
+  id,
+  order_id: orderId,
+  product_id: productId,
+  location_id: 'loc-1',
+  quantity: 2,
+  unit_price: 4.5,
+  _status: 'created',
+  _changed: '',
+});
 
 describe('SyncService', () => {
   let service: SyncService;
+  let fake: FakePrisma;
+  let metrics: SyncMetrics;
+  let devices: DevicesService;
 
-  beforeEach(async () => {
+  const createService = async (prisma: any) => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [SyncService],
+      providers: [
+        SyncService,
+        SyncMetrics,
+        DevicesService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: SYNC_EVENT_BUS, useClass: InMemorySyncEventBus },
+      ],
     }).compile();
 
-    service = module.get<SyncService>(SyncService);
+    metrics = module.get<SyncMetrics>(SyncMetrics);
+    devices = module.get<DevicesService>(DevicesService);
+    return module.get<SyncService>(SyncService);
+  };
+
+  // Push of a client on the current schema
+  const push = (
+    changes: any,
+    lastPulledAt: number | undefined,
+    pushScope = scope,
+    batchId?: string,
+  ) =>
+    service.push(
+      changes,
+      lastPulledAt,
+      pushScope,
+      batchId,
+      LATEST_SCHEMA_VERSION,
+    );
+
+  beforeEach(async () => {
+    // Failing pushes are logged on purpose; keep the test output clean
+    for (const level of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(Logger.prototype, level).mockImplementation(() => undefined);
+    }
+
+    fake = createFake();
+    service = await createService(fake.prisma);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('pull', () => {
+    it('pages through rows written by the same push without skips or duplicates', async () => {
+      for (const id of ['o3', 'o1', 'o5', 'o2', 'o4']) {
+        fake.insert('mh_off_orders', {
+          id,
+          location_id: 'loc-1',
+          created_seq: 90,
+          server_seq: 90,
+        });
+      }
+      for (const id of ['p1', 'p2']) {
+        fake.insert('mh_products', {
+          id,
+          created_seq: 90,
+          server_seq: 90,
+        });
+      }
+
+      const seen: string[] = [];
+      const timestamps = new Set<number>();
+      let cursor: string | undefined;
+      let pages = 0;
+      do {
+        const page = await service.pull(undefined, scope, { limit: 2, cursor });
+        for (const table of Object.values(page.changes)) {
+          seen.push(...[...table.created, ...table.updated].map((r) => r.id));
+        }
+        timestamps.add(page.timestamp);
+        cursor = page.cursor ?? undefined;
+        pages++;
+      } while (cursor);
+
+      expect(seen).toEqual(['o1', 'o2', 'o3', 'o4', 'o5', 'p1', 'p2']);
+      expect(pages).toBe(4);
+      expect([...timestamps]).toEqual([100]);
+    });
+
+    it('only returns orders from the device locations', async () => {
+      for (const [id, location_id] of [
+        ['mine', 'loc-1'],
+        ['theirs', 'loc-2'],
+      ]) {
+        fake.insert('mh_off_orders', {
+          id,
+          location_id,
+          created_seq: 90,
+          server_seq: 90,
+        });
+      }
+
+      const { changes } = await service.pull(undefined, scope);
+
+      expect(changes.mh_off_orders.created.map((r) => r.id)).toEqual(['mine']);
+    });
+
+    it('starts over in full after a location is added to the device', async () => {
+      await devices.register({
+        id: 'till-1',
+        name: 'Till 1',
+        location_ids: ['loc-1'],
+      });
+      for (const [id, location_id] of [
+        ['o1', 'loc-1'],
+        ['o2', 'loc-2'],
+      ]) {
+        fake.insert('mh_off_orders', {
+          id,
+          location_id,
+          created_seq: 90,
+          server_seq: 90,
+        });
+      }
+      const first = await service.pull(
+        undefined,
+        await devices.getScope('till-1'),
+        latest,
+      );
+
+      await devices.setLocations('till-1', ['loc-1', 'loc-2']);
+      const widened = await devices.getScope('till-1');
+      const page = await service.pull(first.timestamp, widened, {
+        ...latest,
+        limit: 1,
+      });
+      const rest = await service.pull(first.timestamp, widened, {
+        ...latest,
+        cursor: page.cursor!,
+      });
+      const next = await service.pull(rest.timestamp, widened, latest);
+
+      expect(first.reset).toBe(false);
+      // o2 is older than the device's last pull but new to it
+      expect([page.reset, rest.reset]).toEqual([true, true]);
+      expect(
+        [page, rest].flatMap((p) => p.changes.mh_off_orders.created),
+      ).toEqual([
+        expect.objectContaining({ id: 'o1' }),
+        expect.objectContaining({ id: 'o2' }),
+      ]);
+      expect(next.reset).toBe(false);
+    });
+
+    it('starts over without the rows of a location removed from the device', async () => {
+      await devices.register({
+        id: 'till-1',
+        name: 'Till 1',
+        location_ids: ['loc-1', 'loc-2'],
+      });
+      for (const [id, location_id] of [
+        ['o1', 'loc-1'],
+        ['o2', 'loc-2'],
+      ]) {
+        fake.insert('mh_off_orders', {
+          id,
+          location_id,
+          created_seq: 90,
+          server_seq: 90,
+        });
+      }
+      const first = await service.pull(
+        undefined,
+        await devices.getScope('till-1'),
+        latest,
+      );
+
+      await devices.setLocations('till-1', ['loc-2']);
+      const next = await service.pull(
+        first.timestamp,
+        await devices.getScope('till-1'),
+        latest,
+      );
+
+      expect(first.changes.mh_off_orders.created.map((r) => r.id)).toEqual([
+        'o1',
+        'o2',
+      ]);
+      // The client clears its tables on reset, which drops o1
+      expect(next.reset).toBe(true);
+      expect(next.changes.mh_off_orders).toEqual({
+        created: [expect.objectContaining({ id: 'o2' })],
+        updated: [],
+        deleted: [],
+      });
+    });
+
+    it('starts over in full when tombstones newer than the last pull were purged', async () => {
+      fake.insert('mh_off_orders', {
+        id: 'o1',
+        location_id: 'loc-1',
+        created_seq: 80,
+        server_seq: 80,
+      });
+      fake.insert('sync_deletions', {
+        id: 1n,
+        table_name: 'mh_off_orders',
+        record_id: 'o2',
+        scope_value: 'loc-1',
+        seq: 96,
+      });
+      // The deletions up to sequence 95 are gone
+      fake.insert('sync_sequence', { name: 'tombstones_purged', value: 95 });
+
+      const stale = await service.pull(90, scope, latest);
+      const current = await service.pull(95, scope, latest);
+
+      expect(stale.reset).toBe(true);
+      expect(stale.changes.mh_off_orders).toEqual({
+        created: [expect.objectContaining({ id: 'o1' })],
+        updated: [],
+        deleted: [],
+      });
+      expect(current.reset).toBe(false);
+      expect(current.changes.mh_off_orders).toEqual({
+        created: [],
+        updated: [],
+        deleted: ['o2'],
+      });
+    });
+
+    it('keeps snapshot reads out of the pull metrics and logs', async () => {
+      const log = jest.spyOn(Logger.prototype, 'log');
+      fake.insert('mh_off_orders', {
+        id: 'o1',
+        location_id: 'loc-1',
+        created_seq: 90,
+        server_seq: 90,
+      });
+
+      const { changes, timestamp } = await service.readSnapshot(
+        { deviceId: 'snapshot:loc-1', locationIds: ['loc-1'] },
+        latest,
+      );
+
+      expect(changes.mh_off_orders.created.map((r) => r.id)).toEqual(['o1']);
+      expect(timestamp).toBe(100);
+      const text = await metrics.metrics();
+      expect(text).not.toContain('sync_requests_total{operation="pull"');
+      expect(text).not.toContain(
+        'sync_table_duration_seconds_count{operation="pull"',
+      );
+      expect(text).toContain(
+        'sync_table_duration_seconds_count{operation="snapshot",table="mh_off_orders"} 1',
+      );
+      expect(log).not.toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Pull served' }),
+      );
+    });
+
+    it('sends a table the client just gained in full and hides it from older clients', async () => {
+      fake.insert('mh_off_orders', {
+        id: 'o1',
+        location_id: 'loc-1',
+        created_seq: 50,
+        server_seq: 50,
+      });
+      fake.insert('mh_stock_movements', {
+        id: 'm1',
+        location_id: 'loc-1',
+        created_seq: 50,
+        server_seq: 50,
+      });
+
+      const migrated = await service.pull(100, scope, {
+        schemaVersion: 2,
+        migration: { from: 1, tables: ['mh_stock_movements'], columns: [] },
+      });
+      const old = await service.pull(100, scope, { schemaVersion: 1 });
+      // Clients that don't send a version predate versioning
+      const unversioned = await service.pull(100, scope);
+
+      expect(migrated.changes.mh_off_orders.created).toEqual([]);
+      expect(migrated.changes.mh_stock_movements.created).toEqual([
+        expect.objectContaining({ id: 'm1' }),
+      ]);
+      expect(old.changes).not.toHaveProperty('mh_stock_movements');
+      expect(unversioned.changes).toEqual(old.changes);
+    });
+
+    it('returns rows pushed by a device with a skewed clock to other devices', async () => {
+      const { timestamp } = await service.pull(undefined, scope);
+      const yesterday = Date.now() - 24 * 60 * 60 * 1000;
+
+      await push(
+        {
+          mh_off_orders: {
+            created: [{ ...order('o1'), updated_at: yesterday }],
+            updated: [],
+            deleted: [],
+          },
+        },
+        timestamp,
+        scope,
+      );
+      const next = await service.pull(timestamp, scope);
+
+      const [pulled] = next.changes.mh_off_orders.created;
+      expect(pulled.id).toBe('o1');
+      expect(pulled.updated_at.getTime()).toBeGreaterThan(yesterday);
+      expect(pulled).not.toHaveProperty('server_seq');
+      expect(next.timestamp).toBe(timestamp + 1);
+    });
+
+    it('sends the order of a pulled item that changed after the pull started', async () => {
+      // Both rows are new to the client; the order was edited again after sequence 103
+      fake.insert('mh_off_orders', {
+        id: 'o1',
+        location_id: 'loc-1',
+        created_seq: 101,
+        server_seq: 105,
+      });
+      fake.insert('mh_off_order_items', {
+        ...orderItem('i1', 'o1'),
+        created_seq: 102,
+        server_seq: 102,
+      });
+      fake.insert('sync_sequence', { name: 'changes', value: 103 });
+
+      const { changes, timestamp } = await service.pull(100, scope, latest);
+
+      expect(timestamp).toBe(103);
+      expect(changes.mh_off_order_items.created.map((i) => i.id)).toEqual([
+        'i1',
+      ]);
+      expect(changes.mh_off_orders.created).toEqual([
+        expect.objectContaining({ id: 'o1' }),
+      ]);
+      expect(changes.mh_off_orders.created[0]).not.toHaveProperty('server_seq');
+    });
+
+    it('sends rows created since the last pull as created and older ones as updated', async () => {
+      for (const [id, created_seq] of [
+        ['o-old', 90],
+        ['o-new', 102],
+      ] as const) {
+        fake.insert('mh_off_orders', {
+          id,
+          location_id: 'loc-1',
+          created_seq,
+          server_seq: 103,
+        });
+      }
+      fake.insert('sync_sequence', { name: 'changes', value: 103 });
+
+      const { changes } = await service.pull(100, scope);
+
+      expect(changes.mh_off_orders.created.map((r) => r.id)).toEqual(['o-new']);
+      expect(changes.mh_off_orders.updated.map((r) => r.id)).toEqual(['o-old']);
+    });
+
+    it('returns rows deleted since the last pull in `deleted`', async () => {
+      fake.insert('mh_off_orders', {
+        ...order('o1'),
+        created_seq: 90,
+        server_seq: 90,
+      });
+
+      await push(
+        { mh_off_orders: { created: [], updated: [], deleted: ['o1'] } },
+        100,
+        scope,
+      );
+      const other = { deviceId: 'till-2', locationIds: ['loc-1'] };
+      const elsewhere = { deviceId: 'till-3', locationIds: ['loc-2'] };
+
+      expect(fake.rows('sync_deletions')).toEqual([
+        expect.objectContaining({
+          table_name: 'mh_off_orders',
+          record_id: 'o1',
+          scope_value: 'loc-1',
+          seq: 101,
+        }),
+      ]);
+      expect((await service.pull(100, other)).changes.mh_off_orders).toEqual({
+        created: [],
+        updated: [],
+        deleted: ['o1'],
+      });
+      expect(
+        (await service.pull(101, other)).changes.mh_off_orders.deleted,
+      ).toEqual([]);
+      expect(
+        (await service.pull(100, elsewhere)).changes.mh_off_orders.deleted,
+      ).toEqual([]);
+    });
+
+    it('fails the pull when a table cannot be read', async () => {
+      jest
+        .spyOn(fake.prisma.mh_products, 'findMany')
+        .mockRejectedValue(new Error('Table is locked'));
+
+      await expect(service.pull(undefined, scope)).rejects.toThrow(
+        'Table is locked',
+      );
+    });
+  });
+
+  describe('push', () => {
+    it('commits every table when all rows succeed', async () => {
+      await push(
+        {
+          mh_off_orders: { created: [order('o1')], updated: [], deleted: [] },
+          mh_products: { created: [product('p1')], updated: [], deleted: [] },
+        },
+        100,
+        scope,
+      );
+
+      expect([...fake.table('mh_off_orders').keys()]).toEqual(['o1']);
+      expect([...fake.table('mh_products').keys()]).toEqual(['p1']);
+    });
+
+    it('asks clients on an unsupported schema version to upgrade', async () => {
+      await expect(
+        service.push(
+          {
+            mh_off_orders: { created: [order('o1')], updated: [], deleted: [] },
+          },
+          100,
+          scope,
+        ),
+      ).rejects.toMatchObject({
+        status: 426,
+        response: { min_schema_version: 2 },
+      });
+      expect(fake.table('mh_off_orders').size).toBe(0);
+    });
+
+    it('replays a retried batch without applying it again', async () => {
+      const changes = {
+        mh_off_orders: { created: [order('o1')], updated: [], deleted: [] },
+      };
+      const first = await push(changes, 100, scope, 'batch-1');
+      fake.table('mh_off_orders').delete('o1');
+
+      const retry = await push(changes, 100, scope, 'batch-1');
+
+      expect(retry).toEqual(first);
+      expect(fake.table('mh_off_orders').has('o1')).toBe(false);
+      expect(fake.rows('sync_push_batches')).toHaveLength(1);
+    });
+
+    it('applies a batch again once its stored result expired', async () => {
+      fake.insert('sync_push_batches', {
+        device_id: 'till-1',
+        batch_id: 'batch-1',
+        result: JSON.stringify({ success: true }),
+        expires_at: new Date(Date.now() - 1000),
+      });
+
+      await push(
+        { mh_off_orders: { created: [order('o1')], updated: [], deleted: [] } },
+        100,
+        scope,
+        'batch-1',
+      );
+
+      expect(fake.table('mh_off_orders').has('o1')).toBe(true);
+      const [batch] = fake.rows('sync_push_batches');
+      expect(batch.expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('refuses orders outside the device locations', async () => {
+      fake.insert('mh_off_orders', {
+        id: 'o-other',
+        location_id: 'loc-2',
+      });
+
+      await expect(
+        push(
+          {
+            mh_off_orders: {
+              created: [{ ...order('o1'), location_id: 'loc-2' }],
+              updated: [],
+              deleted: ['o-other'],
+            },
+          },
+          100,
+          scope,
+        ),
+      ).rejects.toMatchObject({
+        response: {
+          violations: [
+            { table: 'mh_off_orders', id: 'o1', value: 'loc-2' },
+            { table: 'mh_off_orders', id: 'o-other', value: 'loc-2' },
+          ],
+        },
+      });
+      expect(fake.table('mh_off_orders').has('o1')).toBe(false);
+    });
+
+    it('accepts items of an order created in the same push and rejects orphans', async () => {
+      fake.insert('mh_products', { id: 'p1' });
+      const items = (...created: any[]) => ({
+        mh_off_orders: { created: [order('o1')], updated: [], deleted: [] },
+        mh_off_order_items: { created, updated: [], deleted: [] },
+      });
+
+      await expect(
+        push(
+          items(
+            orderItem('i1', 'o1'),
+            orderItem('i2', 'o-missing'),
+            orderItem('i3', 'o1', 'p-missing'),
+            { ...orderItem('i4', 'o1'), location_id: 'loc-2' },
+          ),
+          100,
+          { deviceId: 'till-1', locationIds: ['loc-1', 'loc-2'] },
+        ),
+      ).rejects.toMatchObject({
+        status: 400,
+        response: {
+          errors: [
+            {
+              table: 'mh_off_order_items',
+              id: 'i2',
+              field: 'order_id',
+              reason:
+                'References mh_off_orders o-missing, which does not exist',
+            },
+            {
+              table: 'mh_off_order_items',
+              id: 'i4',
+              field: 'location_id',
+              reason: 'Must match location_id of mh_off_orders o1',
+            },
+            {
+              table: 'mh_off_order_items',
+              id: 'i3',
+              field: 'product_id',
+              reason: 'References mh_products p-missing, which does not exist',
+            },
+          ],
+        },
+      });
+      expect(fake.table('mh_off_orders').size).toBe(0);
+
+      await push(items(orderItem('i1', 'o1')), 100, scope);
+      expect(fake.table('mh_off_order_items').get('i1')).toMatchObject({
+        order_id: 'o1',
+        product_id: 'p1',
+      });
+    });
+
+    it('rejects product codes another product keeps', async () => {
+      fake.insert('mh_products', {
+        ...product('p1'),
+        product_code: 'A1',
+        server_seq: 90,
+      });
+      const products = (created: any[], updated: any[] = []) => ({
+        mh_products: { created, updated, deleted: [] },
+      });
+
+      await expect(
+        push(
+          products([
+            { ...product('p2'), product_code: 'A1' },
+            { ...product('p3'), product_code: 'C3' },
+            { ...product('p4'), product_code: 'C3' },
+          ]),
+          100,
+          scope,
+        ),
+      ).rejects.toMatchObject({
+        status: 400,
+        response: {
+          errors: [
+            {
+              table: 'mh_products',
+              id: 'p2',
+              field: 'product_code',
+              reason: 'Product code A1 is already used by product p1',
+            },
+            {
+              table: 'mh_products',
+              id: 'p3',
+              field: 'product_code',
+              reason: 'Product code C3 is already used by product p4',
+            },
+            {
+              table: 'mh_products',
+              id: 'p4',
+              field: 'product_code',
+              reason: 'Product code C3 is already used by product p3',
+            },
+          ],
+        },
+      });
+      expect([...fake.table('mh_products').keys()]).toEqual(['p1']);
+
+      // A code the push takes away from its product is free to reuse
+      await push(
+        products(
+          [{ ...product('p2'), product_code: 'A1' }],
+          [{ ...product('p1'), product_code: 'Z9', _status: 'updated' }],
+        ),
+        100,
+        scope,
+      );
+      expect(fake.table('mh_products').get('p2')).toMatchObject({
+        product_code: 'A1',
+      });
+    });
+
+    it('refuses to delete an order whose items stay behind', async () => {
+      fake.insert('mh_off_orders', {
+        id: 'o1',
+        location_id: 'loc-1',
+      });
+      for (const id of ['i1', 'i2']) {
+        fake.insert('mh_off_order_items', orderItem(id, 'o1'));
+      }
+      const deleteOrder = (...itemIds: string[]) => ({
+        mh_off_orders: { created: [], updated: [], deleted: ['o1'] },
+        mh_off_order_items: { created: [], updated: [], deleted: itemIds },
+      });
+
+      await expect(push(deleteOrder('i1'), 100, scope)).rejects.toMatchObject({
+        response: {
+          errors: [
+            {
+              table: 'mh_off_orders',
+              id: 'o1',
+              field: null,
+              reason: 'Still referenced by mh_off_order_items i2',
+            },
+          ],
+        },
+      });
+
+      await push(deleteOrder('i1', 'i2'), 100, scope);
+      expect(fake.table('mh_off_orders').size).toBe(0);
+      expect(fake.table('mh_off_order_items').size).toBe(0);
+    });
+
+    it('leaves the database untouched when a later row fails', async () => {
+      fake = createFake({ failRawOn: 'p-bad' });
+      service = await createService(fake.prisma);
+      fake.insert('mh_off_orders', {
+        id: 'o-old',
+        location_id: 'loc-1',
+      });
+
+      await expect(
+        push(
+          {
+            mh_off_orders: {
+              created: [order('o1')],
+              updated: [],
+              deleted: ['o-old'],
+            },
+            // Fails after the orders were written
+            mh_products: {
+              created: [product('p-bad')],
+              updated: [],
+              deleted: [],
+            },
+          },
+          100,
+          scope,
+        ),
+      ).rejects.toThrow('Raw statement failed');
+
+      expect([...fake.table('mh_off_orders').keys()]).toEqual(['o-old']);
+      expect(fake.table('mh_products').size).toBe(0);
+      expect(fake.rows('sync_deletions')).toEqual([]);
+    });
+
+    it('rejects a stale update of a product changed since the last pull', async () => {
+      fake.insert('mh_products', {
+        ...product('p1'),
+        price: 12,
+        created_seq: 90,
+        server_seq: 105,
+      });
+
+      await expect(
+        push(
+          {
+            mh_products: {
+              created: [],
+              updated: [
+                { ...product('p1'), _status: 'updated', _changed: 'price' },
+              ],
+              deleted: [],
+            },
+          },
+          100,
+          scope,
+        ),
+      ).rejects.toMatchObject({
+        status: 409,
+        response: { conflicts: [{ table: 'mh_products', ids: ['p1'] }] },
+      });
+      expect(fake.table('mh_products').get('p1')).toMatchObject({
+        price: 12,
+        server_seq: 105,
+      });
+    });
+
+    it('drops rows of a server-wins table changed since the last pull', async () => {
+      jest.replaceProperty(mhOffOrdersTable, 'conflictPolicy', 'server-wins');
+      fake.insert('mh_off_orders', {
+        ...order('o1'),
+        order_no: '00000001',
+        user_agent: 'back office',
+        created_seq: 90,
+        server_seq: 105,
+      });
+
+      await push(
+        {
+          mh_off_orders: {
+            created: [order('o2')],
+            updated: [
+              {
+                ...order('o1'),
+                user_agent: 'till',
+                _status: 'updated',
+                _changed: 'user_agent',
+              },
+            ],
+            deleted: [],
+          },
+        },
+        100,
+        scope,
+      );
+
+      const orders = fake.table('mh_off_orders');
+      expect(orders.get('o1')).toMatchObject({
+        user_agent: 'back office',
+        server_seq: 105,
+      });
+      expect(orders.get('o2')).toMatchObject({ server_seq: 101 });
+    });
+
+    it('merges edits of different columns from two devices', async () => {
+      fake.insert('mh_products', {
+        id: 'p1',
+        product_name: 'Product p1',
+        price: 9.5,
+        server_seq: 90,
+      });
+      const edit = (changes: object, changed: string) => ({
+        mh_products: {
+          created: [],
+          updated: [
+            {
+              ...product('p1'),
+              ...changes,
+              _status: 'updated',
+              _changed: changed,
+            },
+          ],
+          deleted: [],
+        },
+      });
+
+      await push(edit({ price: 12 }, 'price'), 100, scope);
+      // Pulled after the first push, but still holds the old price locally
+      await push(edit({ product_name: 'Renamed' }, 'product_name'), 101, scope);
+
+      expect(fake.table('mh_products').get('p1')).toMatchObject({
+        product_name: 'Renamed',
+        price: 12,
+        server_seq: 102,
+      });
+    });
+
+    it('inserts the full record when an updated row is missing on the server', async () => {
+      await push(
+        {
+          mh_products: {
+            created: [],
+            updated: [
+              { ...product('p1'), _status: 'updated', _changed: 'price' },
+            ],
+            deleted: [],
+          },
+        },
+        100,
+        scope,
+      );
+
+      expect(fake.table('mh_products').get('p1')).toMatchObject({
+        product_code: 'CODE-p1',
+        product_name: 'Product p1',
+        price: 9.5,
+        created_seq: 101,
+      });
+    });
+
+    it('notifies connected devices of committed changes in their scope', async () => {
+      const received: Record<string, any[]> = { mine: [], other: [] };
+      const subscriptions = [
+        service
+          .changeEvents(scope)
+          .subscribe((event) => received.mine.push(event.data)),
+        service
+          .changeEvents({ deviceId: 'till-2', locationIds: ['loc-2'] })
+          .subscribe((event) => received.other.push(event.data)),
+      ];
+
+      await push(
+        {
+          mh_off_orders: { created: [order('o1')], updated: [], deleted: [] },
+          mh_products: { created: [product('p1')], updated: [], deleted: [] },
+        },
+        100,
+        scope,
+      );
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+
+      expect(received.mine).toEqual([
+        { seq: 101, tables: ['mh_off_orders', 'mh_products'] },
+      ]);
+      expect(received.other).toEqual([{ seq: 101, tables: ['mh_products'] }]);
+    });
+
+    it('assigns canonical order numbers and keeps the device number', async () => {
+      await push(
+        {
+          mh_off_orders: {
+            created: [order('o1'), order('o2')],
+            updated: [],
+            deleted: [],
+          },
+        },
+        100,
+        scope,
+      );
+      await push(
+        {
+          mh_off_orders: {
+            created: [],
+            updated: [
+              {
+                ...order('o1'),
+                order_no: 'LOCAL-1',
+                _status: 'updated',
+                _changed: 'order_no',
+              },
+            ],
+            deleted: [],
+          },
+        },
+        101,
+        scope,
+      );
+
+      const orders = fake.table('mh_off_orders');
+      expect(orders.get('o1')).toMatchObject({
+        order_no: '00000001',
+        device_order_no: 'NO-o1',
+      });
+      expect(orders.get('o2')).toMatchObject({
+        order_no: '00000002',
+        device_order_no: 'NO-o2',
+      });
+    });
+
+    it('numbers the orders of each location from its own counter', async () => {
+      const atLocation = (id: string, location_id: string) => ({
+        ...order(id),
+        location_id,
+      });
+
+      await push(
+        {
+          mh_off_orders: {
+            created: [
+              atLocation('o1', 'loc-1'),
+              atLocation('o2', 'loc-2'),
+              atLocation('o3', 'loc-1'),
+            ],
+            updated: [],
+            deleted: [],
+          },
+        },
+        100,
+        { deviceId: 'till-1', locationIds: ['loc-1', 'loc-2'] },
+      );
+
+      const orders = fake.table('mh_off_orders');
+      expect(['o1', 'o2', 'o3'].map((id) => orders.get(id)?.order_no)).toEqual([
+        '00000001',
+        '00000001',
+        '00000002',
+      ]);
+      expect(fake.rows('sync_order_sequences')).toEqual([
+        expect.objectContaining({ location_id: 'loc-1', last_value: 2 }),
+        expect.objectContaining({ location_id: 'loc-2', last_value: 1 }),
+      ]);
+    });
+
+    it('keeps order numbers from a range reserved for the device', async () => {
+      const { first, last } = await service.reserveOrderNumbers(
+        scope,
+        'loc-1',
+        10,
+      );
+
+      await push(
+        {
+          mh_off_orders: {
+            created: [
+              { ...order('o1'), order_no: '3' },
+              { ...order('o2'), order_no: '3' },
+            ],
+            updated: [],
+            deleted: [],
+          },
+        },
+        100,
+        scope,
+      );
+
+      expect([first, last]).toEqual(['00000001', '00000010']);
+      const orders = fake.table('mh_off_orders');
+      expect(orders.get('o1')?.order_no).toBe('00000003');
+      // Same reserved number twice: the second order gets a fresh one
+      expect(orders.get('o2')?.order_no).toBe('00000011');
+    });
+
+    it('reconciles stock from sales pushed by two tills', async () => {
+      fake.insert('mh_products', {
+        id: 'p1',
+        stock_quantity: 10,
+        server_seq: 90,
+      });
+      fake.insert('mh_stock_movements', {
+        id: 'm0',
+        product_id: 'p1',
+        location_id: null,
+        movement_type: 'opening',
+        quantity: 10,
+      });
+      const sale = (id: string, location_id: string) => ({
+        mh_off_orders: { created: [], updated: [], deleted: [] },
+        mh_stock_movements: {
+          created: [
+            {
+              id,
+              product_id: 'p1',
+              location_id,
+              movement_type: 'sale',
+              quantity: -3,
+            },
+          ],
+          updated: [],
+          deleted: [],
+        },
+      });
+
+      await push(sale('m1', 'loc-1'), 100, scope);
+      await push(sale('m2', 'loc-2'), 100, {
+        deviceId: 'till-2',
+        locationIds: ['loc-2'],
+      });
+      const { changes } = await service.pull(100, scope, latest);
+
+      expect(changes.mh_products.updated).toEqual([
+        expect.objectContaining({ id: 'p1', stock_quantity: 4 }),
+      ]);
+      expect(changes.mh_stock_movements.created.map((m) => m.id)).toEqual([
+        'm1',
+      ]);
+    });
+
+    it('binds raw SQL fallback values as parameters', async () => {
+      fake = createFake({ models: ['mh_off_orders'] });
+      service = await createService(fake.prisma);
+
+      await push(
+        {
+          mh_products: {
+            created: [{ ...product('p1'), product_name: "O'Brien'); --" }],
+            updated: [],
+            deleted: ['p2'],
+          },
+        },
+        100,
+        scope,
+      );
+
+      const statements = fake.rawStatements();
+      expect(statements).toHaveLength(2);
+      expect(statements[0]).toMatch(
+        /^INSERT INTO `mh_products` \(.*\) VALUES \((\?, )*\?\) ON DUPLICATE KEY UPDATE /,
+      );
+      expect(statements[1]).toBe('DELETE FROM `mh_products` WHERE `id` IN (?)');
+      expect(statements.join('\n')).not.toContain('Brien');
+    });
+
+    it('binds order dates and times the way the database stores them', async () => {
+      const pushOrder = async (dialect: SqlDialect) => {
+        fake = createFake({ dialect });
+        service = await createService(fake.prisma);
+        await push(
+          {
+            mh_off_orders: {
+              created: [{ ...order('o1'), order_date: Date.UTC(2024, 2, 5) }],
+              updated: [],
+              deleted: [],
+            },
+          },
+          100,
+          scope,
+        );
+        return fake.table('mh_off_orders').get('o1');
+      };
+
+      expect(await pushOrder(mysqlDialect)).toMatchObject({
+        order_date: '2024-03-05',
+        order_time: expect.stringMatching(/^\d\d:30:00$/),
+      });
+      expect(await pushOrder(sqliteDialect)).toMatchObject({
+        order_date: new Date(Date.UTC(2024, 2, 5)),
+        order_time: expect.any(Date),
+      });
+    });
+
+    it('quotes the raw SQL fallback queries for the configured dialect', async () => {
+      fake = createFake({ dialect: sqliteDialect, models: ['mh_off_orders'] });
+      service = await createService(fake.prisma);
+      fake.insert(
+        'mh_off_orders',
+        { ...order('o1'), server_seq: 90 },
+        { ...order('o2'), server_seq: 90 },
+      );
+      fake.insert(
+        'mh_products',
+        { ...product('p1'), server_seq: 90 },
+        { ...product('p2'), server_seq: 90 },
+      );
+      fake.insert('mh_off_order_items', {
+        ...orderItem('i0', 'o2', 'p2'),
+        server_seq: 90,
+      });
+
+      await push(
+        {
+          mh_products: {
+            created: [],
+            updated: [{ ...product('p1'), product_code: 'NEW-p1' }],
+            deleted: [],
+          },
+          mh_off_order_items: {
+            created: [orderItem('i1', 'o1')],
+            updated: [],
+            deleted: ['i0'],
+          },
+        },
+        100,
+        scope,
+      );
+
+      expect(fake.table('mh_off_order_items').has('i1')).toBe(true);
+      const queries = fake.rawQueries();
+      expect(queries).toEqual(
+        expect.arrayContaining([
+          'SELECT "id" FROM "mh_products" WHERE "id" IN (?) AND "server_seq" > ?',
+          'SELECT "id", "product_code" FROM "mh_products" WHERE "id" IN (?)',
+          'SELECT "id", "location_id" FROM "mh_off_order_items" WHERE "id" IN (?, ?)',
+        ]),
+      );
+      expect(queries.join('\n')).not.toContain('`');
+    });
+
+    it('counts written rows and raw SQL fallbacks per table', async () => {
+      fake = createFake({ models: ['mh_off_orders'] });
+      service = await createService(fake.prisma);
+
+      await push(
+        {
+          mh_off_orders: {
+            created: [order('o1'), order('o2')],
+            updated: [],
+            deleted: [],
+          },
+          mh_products: { created: [product('p1')], updated: [], deleted: [] },
+        },
+        100,
+        scope,
+      );
+
+      const text = await metrics.metrics();
+      expect(text).toContain(
+        'sync_requests_total{operation="push",outcome="success"} 1',
+      );
+      expect(text).toContain(
+        'sync_rows_total{operation="write",table="mh_off_orders",change="created"} 2',
+      );
+      expect(text).toContain(
+        'sync_raw_sql_fallback_total{table="mh_products"} 1',
+      );
+      expect(text).not.toContain(
+        'sync_raw_sql_fallback_total{table="mh_off_orders"}',
+      );
+    });
+
+    it('rolls back the raw SQL fallback together with the model path', async () => {
+      fake = createFake({
+        models: ['mh_off_orders'],
+        failRawOn: 'p-bad',
+      });
+      service = await createService(fake.prisma);
+
+      await expect(
+        push(
+          {
+            mh_off_orders: { created: [order('o1')], updated: [], deleted: [] },
+            mh_products: {
+              created: [product('p1'), product('p-bad')],
+              updated: [],
+              deleted: [],
+            },
+          },
+          100,
+          scope,
+        ),
+      ).rejects.toThrow('Raw statement failed');
+
+      expect(fake.table('mh_off_orders').size).toBe(0);
+      expect(fake.rawStatements()).toEqual([]);
+    });
+
+    it('writes created rows in multi-row statements of SYNC_WRITE_CHUNK_SIZE rows', async () => {
+      process.env.SYNC_WRITE_CHUNK_SIZE = '2';
+      service = await createService(fake.prisma);
+      delete process.env.SYNC_WRITE_CHUNK_SIZE;
+      const created = ['p1', 'p2', 'p3', 'p4', 'p5'].map(product);
+
+      await push(
+        { mh_products: { created, updated: [], deleted: [] } },
+        100,
+        scope,
+      );
+
+      expect(fake.table('mh_products').size).toBe(5);
+      expect(
+        fake.rawStatements().map((sql) => sql.match(/\((\?, )*\?\)/g)?.length),
+      ).toEqual([2, 2, 1]);
+    });
+  });
 });
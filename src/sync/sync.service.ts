@@ -1,320 +1,1136 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  MessageEvent,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { filter, map, Observable } from 'rxjs';
 import { PrismaService } from '../prisma/prisma.service';
+import type { SqlDialect } from '../prisma/sql-dialect';
+import { SyncMetrics, SyncTableOperation } from '../metrics/sync-metrics';
+import { DeviceScope } from '../devices/device-scope';
+import {
+  getSyncTable,
+  SYNC_SEQUENCE_COLUMNS,
+  SYNC_TABLES,
+  SyncColumnDefinition,
+  SyncTableDefinition,
+  SyncTouchedTable,
+  SyncWriteContext,
+} from './tables';
+import { allocateOrderNumbers, formatOrderNumber } from './order-numbers';
+import { decodePullCursor, encodePullCursor, PullCursor } from './sync-cursor';
+import {
+  assertPushSchemaVersion,
+  ClientMigration,
+  planPull,
+} from './schema-versions';
+import { findReferenceErrors } from './sync-references';
+import { SYNC_EVENT_BUS, SyncChangeEvent } from './sync-event-bus';
+import { PURGED_TOMBSTONES_SEQUENCE } from './sync-maintenance.service';
+import type { SyncEventBus } from './sync-event-bus';
+
+// Interactive transaction limits for a push; end-of-day pushes can be large
+const PUSH_TRANSACTION_OPTIONS = {
+  maxWait: Number(process.env.SYNC_PUSH_TX_MAX_WAIT_MS ?? 5000),
+  timeout: Number(process.env.SYNC_PUSH_TX_TIMEOUT_MS ?? 60000),
+};
+
+// How long an applied push batch is remembered for replaying retries
+const PUSH_BATCH_TTL_MS =
+  Number(process.env.SYNC_PUSH_BATCH_TTL_HOURS ?? 72) * 60 * 60 * 1000;
+
+// Row of sync_sequence holding the last change sequence handed out
+const CHANGE_SEQUENCE = 'changes';
+
+// Raw query parameter for a column value. Dates of DATE and TIME columns are bound
+// the way the dialect stores them; other values, including DATETIME Dates, are
+// bound as they are.
+function toSqlParam(
+  value: unknown,
+  column: SyncColumnDefinition | undefined,
+  dialect: SqlDialect,
+) {
+  if (value === undefined) {
+    return null;
+  }
+  if (
+    value instanceof Date &&
+    (column?.type === 'date' || column?.type === 'time')
+  ) {
+    return dialect.temporalParam(value, column.type);
+  }
+  return value;
+}
+
+export interface PullOptions {
+  // Page size; all changes in one response when unset
+  limit?: number;
+  // Cursor returned by the previous page
+  cursor?: string;
+  // Client (WatermelonDB) schema version and migration since its last sync
+  schemaVersion?: number;
+  migration?: ClientMigration | null;
+}
+
+// `items` split into consecutive chunks of at most `size`
+function chunkRows<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Row counts per registered table in push-format changes, for summary log lines
+function countChanges(changes: any) {
+  const counts: Record<
+    string,
+    { created: number; updated: number; deleted: number }
+  > = {};
+  for (const { name } of SYNC_TABLES) {
+    const tableChanges = changes?.[name];
+    if (tableChanges) {
+      counts[name] = {
+        created: tableChanges.created?.length ?? 0,
+        updated: tableChanges.updated?.length ?? 0,
+        deleted: tableChanges.deleted?.length ?? 0,
+      };
+    }
+  }
+  return counts;
+}
 
 @Injectable()
 export class SyncService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(SyncService.name);
+  // Rows per multi-row write statement; large pushes are written in chunks of this size
+  private readonly writeChunkSize = Math.max(
+    1,
+    Number(process.env.SYNC_WRITE_CHUNK_SIZE ?? 500),
+  );
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly metrics: SyncMetrics,
+    @Inject(SYNC_EVENT_BUS) private readonly eventBus: SyncEventBus,
+  ) {}
 
-  // Helper to serialize BigInt values for JSON.stringify
-  private serializeBigInt(obj: any): any {
-    if (obj === null || obj === undefined) {
-      return obj;
+  // 🔁 Pull data since last sync. With a `limit`, returns at most that many rows
+  // per call plus a cursor; the client keeps calling with the cursor until
+  // `has_more` is false and only then stores `timestamp` as its last_pulled_at.
+  async pull(
+    lastPulledAt: number | undefined,
+    scope: DeviceScope,
+    options: PullOptions = {},
+  ) {
+    const startedAt = Date.now();
+    const done = this.metrics.startRequest('pull');
+    try {
+      const response = await this.pullPage(lastPulledAt, scope, options);
+      const tables = countChanges(response.changes);
+      for (const [table, counts] of Object.entries(tables)) {
+        this.metrics.recordRows('pull', table, counts);
+      }
+      this.metrics.recordPayloadSize('pull', response);
+      done('success');
+      this.logger.log({
+        message: 'Pull served',
+        since: lastPulledAt ?? null,
+        timestamp: response.timestamp,
+        hasMore: response.has_more,
+        reset: response.reset,
+        tables,
+        durationMs: Date.now() - startedAt,
+      });
+      return response;
+    } catch (error) {
+      done('error');
+      this.logger.warn({
+        message: 'Pull failed',
+        durationMs: Date.now() - startedAt,
+        error,
+      });
+      throw error;
     }
-    if (typeof obj === 'bigint') {
-      return obj.toString();
+  }
+
+  // Everything the scope sees, read in one page for a snapshot build. Its tables
+  // are timed as 'snapshot', and it stays out of the pull request metrics and
+  // logs, which count device pulls.
+  readSnapshot(scope: DeviceScope, options: PullOptions) {
+    return this.pullPage(undefined, scope, options, 'snapshot');
+  }
+
+  private async pullPage(
+    lastPulledAt: number | undefined,
+    scope: DeviceScope,
+    options: PullOptions,
+    operation: SyncTableOperation = 'pull',
+  ) {
+    const cursor: PullCursor = options.cursor
+      ? decodePullCursor(options.cursor)
+      : await this.startPull(lastPulledAt ?? 0, scope, options);
+    const { since, until } = cursor;
+    const modeOf = (table: SyncTableDefinition) =>
+      cursor.modes?.[table.name] ?? 'incremental';
+
+    // Tables the client's schema doesn't have yet are left out of the response
+    const changes: Record<
+      string,
+      { created: any[]; updated: any[]; deleted: string[] }
+    > = {};
+    for (const table of SYNC_TABLES) {
+      if (modeOf(table) !== 'skip') {
+        changes[table.name] = { created: [], updated: [], deleted: [] };
+      }
     }
-    if (Array.isArray(obj)) {
-      return obj.map(item => this.serializeBigInt(item));
+
+    // Walk the registered tables in order, filling the page until the limit is reached
+    let remaining = options.limit ?? Infinity;
+    let position = cursor.table;
+    let after = cursor.after;
+    const skipTables = () => {
+      while (
+        position < SYNC_TABLES.length &&
+        modeOf(SYNC_TABLES[position]) === 'skip'
+      ) {
+        position++;
+      }
+    };
+    skipTables();
+    while (position < SYNC_TABLES.length && remaining > 0) {
+      const table = SYNC_TABLES[position];
+      const mode = modeOf(table);
+      const endTable = this.metrics.startTable(operation, table.name);
+      // Tables and columns the client just gained are read in full, the rest incrementally
+      const rowsSince = mode === 'incremental' ? since : 0;
+      // Fetch one extra row to learn whether the table has more after this page
+      const rows = await this.findPullPage(
+        table,
+        scope,
+        rowsSince,
+        until,
+        after,
+        remaining === Infinity ? undefined : remaining + 1,
+      );
+      const pageRows = rows.slice(0, remaining);
+      // A new table is empty on the client, so all of its rows are created there
+      changes[table.name] = {
+        ...this.splitCreatedUpdated(pageRows, mode === 'full' ? 0 : since),
+        deleted: [],
+      };
+      await this.addReferencedRows(
+        changes,
+        table,
+        pageRows,
+        scope,
+        until,
+        (referenced) => (modeOf(referenced) === 'full' ? 0 : since),
+      );
+      remaining -= pageRows.length;
+
+      if (rows.length > pageRows.length) {
+        const last = pageRows[pageRows.length - 1];
+        after = { seq: Number(last.server_seq), id: last.id };
+        endTable();
+        break;
+      }
+
+      // Table exhausted: its tombstones go out with its last page (a new table has nothing to delete)
+      changes[table.name].deleted =
+        mode === 'full'
+          ? []
+          : await this.getDeletedIds(table, scope, since, until);
+      endTable();
+      position++;
+      after = null;
+      skipTables();
     }
-    if (typeof obj === 'object') {
-      const serialized: any = {};
-      for (const key in obj) {
-        if (Object.prototype.hasOwnProperty.call(obj, key)) {
-          serialized[key] = this.serializeBigInt(obj[key]);
-        }
+
+    const hasMore = position < SYNC_TABLES.length;
+    return {
+      changes,
+      timestamp: cursor.until,
+      has_more: hasMore,
+      cursor: hasMore
+        ? encodePullCursor({ ...cursor, table: position, after })
+        : null,
+      reset: cursor.reset ?? false,
+    };
+  }
+
+  // ⏮️ Cursor of a pull's first page. A device whose last pull predates its current
+  // location scope or the newest purged tombstone can't catch up incrementally,
+  // so it starts over: every table its schema has is sent in full, and `reset`
+  // tells it to clear its synced tables before applying the first page.
+  private async startPull(
+    since: number,
+    scope: DeviceScope,
+    options: PullOptions,
+  ): Promise<PullCursor> {
+    // Fixed before any query runs, so rows written during the pull are picked up next time
+    const until = await this.currentSequence();
+    const modes = planPull(options.schemaVersion, options.migration ?? null);
+    if (since > 0 && since < (await this.oldestResumableSince(scope))) {
+      for (const [name, mode] of Object.entries(modes)) {
+        modes[name] = mode === 'skip' ? 'skip' : 'full';
       }
-      return serialized;
+      return { since: 0, until, table: 0, after: null, modes, reset: true };
     }
-    return obj;
+    return { since, until, table: 0, after: null, modes };
   }
 
-  // 🔁 Pull data since last sync
-  async pull(lastPulledAt: string) {
-    const since = lastPulledAt ? new Date(Number(lastPulledAt)) : new Date(0);
+  // Oldest last_pulled_at a pull can continue from: the device's rows are only
+  // complete from its last location change, and its deletions only after the
+  // newest purged tombstone
+  private async oldestResumableSince(scope: DeviceScope): Promise<number> {
+    const purged = await this.prisma.sync_sequence.findUnique({
+      where: { name: PURGED_TOMBSTONES_SEQUENCE },
+    });
+    return Math.max(scope.scopeSeq ?? 0, purged ? Number(purged.value) : 0);
+  }
 
-    // Pull data from all tables
+  // 🔗 Referenced rows the client lacks that this pull would not send: created after its
+  // last pull but written again after `until`. They go out as created with the rows
+  // pointing at them, so no row arrives before the row it references; the next pull
+  // sends them again as updates.
+  private async addReferencedRows(
+    changes: Record<
+      string,
+      { created: any[]; updated: any[]; deleted: string[] }
+    >,
+    table: SyncTableDefinition,
+    rows: any[],
+    scope: DeviceScope,
+    until: number,
+    sinceOf: (table: SyncTableDefinition) => number,
+  ) {
     const prisma = this.prisma as any;
-    const [orders, products] = await Promise.all([
-      prisma.mh_off_orders.findMany({
-        where: { updated_at: { gt: since } },
-      }),
-      prisma.mh_products?.findMany({
-        where: { updated_at: { gt: since } },
-      }).catch(() => []), // Fallback if table doesn't exist yet
-    ]);
+    for (const reference of table.references ?? []) {
+      const target = getSyncTable(reference.table);
+      if (!target || !changes[target.name] || rows.length === 0) {
+        continue;
+      }
+      const conditions: Record<string, any>[] = [
+        { id: { in: [...new Set(rows.map((row) => row[reference.column]))] } },
+        { created_seq: { gt: sinceOf(target) } },
+        { server_seq: { gt: until } },
+      ];
+      if (target.scopeColumn) {
+        conditions.push({ [target.scopeColumn]: { in: scope.locationIds } });
+      }
+      const missing: any[] =
+        (await prisma[target.name]?.findMany({ where: { AND: conditions } })) ??
+        [];
+      const sent = new Set(changes[target.name].created.map((row) => row.id));
+      for (const row of missing.filter((row) => !sent.has(row.id))) {
+        changes[target.name].created.push(this.toClientRow(row));
+      }
+    }
+  }
 
-    return {
-      changes: {
-        mh_off_orders: {
-          created: orders || [],
-          updated: [],
-          deleted: [],
-        },
-        mh_products: {
-          created: products || [],
-          updated: [],
-          deleted: [],
-        },
-      },
-      timestamp: Date.now(),
-    };
+  // One page of a table's changed rows in stable (server_seq, id) order, so rows
+  // written by the same push are never skipped or repeated across pages
+  private async findPullPage(
+    table: SyncTableDefinition,
+    scope: DeviceScope,
+    since: number,
+    until: number,
+    after: PullCursor['after'],
+    take?: number,
+  ): Promise<any[]> {
+    const prisma = this.prisma as any;
+    const conditions: Record<string, any>[] = [
+      table.pullFilter(since),
+      { server_seq: { lte: until } },
+    ];
+    if (table.scopeColumn) {
+      conditions.push({ [table.scopeColumn]: { in: scope.locationIds } });
+    }
+    if (after) {
+      conditions.push({
+        OR: [
+          { server_seq: { gt: after.seq } },
+          { server_seq: after.seq, id: { gt: after.id } },
+        ],
+      });
+    }
+    // A model missing from the generated client has nothing to pull. Query
+    // errors propagate: an empty page would move the client's cursor past rows
+    // it never received.
+    const rows: any[] | undefined = await prisma[table.name]?.findMany({
+      where: { AND: conditions },
+      orderBy: [{ server_seq: 'asc' }, { id: 'asc' }],
+      take,
+    });
+    return rows ?? [];
   }
 
-  // 📤 Push data from client
-  async push(changes: any, lastPulledAt: string) {
-    console.log(`[Sync] Received push request with changes:`, JSON.stringify(changes, null, 2));
-    
-    // Handle mh_off_orders
-    if (changes?.mh_off_orders) {
-      console.log(`[Sync] Processing mh_off_orders`);
-      await this.syncTable('mh_off_orders', changes.mh_off_orders, this.sanitizeOrderData.bind(this));
+  // 🆕 Rows inserted after `since` are new to the client, the rest are edits.
+  // Rows without a created_seq (written before the sequence existed) go to `updated`,
+  // which WatermelonDB applies as a create when the record is missing locally.
+  private splitCreatedUpdated(rows: any[], since: number) {
+    const created: any[] = [];
+    const updated: any[] = [];
+    for (const row of rows) {
+      if (Number(row.created_seq ?? 0) > since) {
+        created.push(this.toClientRow(row));
+      } else {
+        updated.push(this.toClientRow(row));
+      }
     }
+    return { created, updated };
+  }
 
-    // Handle mh_products
-    if (changes?.mh_products) {
-      console.log(`[Sync] Processing mh_products`);
-      await this.syncTable('mh_products', changes.mh_products, this.sanitizeProductData.bind(this));
+  // Drop server bookkeeping (BigInt sequence columns) before a row goes to a client
+  private toClientRow(row: Record<string, any>) {
+    const clientRow = { ...row };
+    for (const column of SYNC_SEQUENCE_COLUMNS) {
+      delete clientRow[column];
     }
+    return clientRow;
+  }
 
-    console.log(`[Sync] Push completed successfully`);
-    return { success: true };
+  // 🔢 Last change sequence handed out. Rows and tombstones stamped at or below
+  // it are committed, since pushes hold the sequence row until they commit.
+  private async currentSequence(): Promise<number> {
+    const row = await this.prisma.sync_sequence.findUnique({
+      where: { name: CHANGE_SEQUENCE },
+    });
+    return row ? Number(row.value) : 0;
   }
 
-  // 🔄 Generic sync handler for any table
-  private async syncTable(tableName: string, tableChanges: any, sanitizeFn: (item: any) => any) {
-    const { created = [], updated = [], deleted = [] } = tableChanges;
-    console.log(`[Sync] syncTable called for ${tableName} - created: ${created.length}, updated: ${updated.length}, deleted: ${deleted.length}`);
-    
-    const prisma = this.prisma as any;
-    const model = prisma[tableName];
+  // 🔢 Take the next change sequence for a push. The increment locks the sequence row
+  // until the transaction ends, so pushes are applied one at a time and commit in
+  // sequence order; a rolled back push gives its number back.
+  private async nextSequence(tx: Prisma.TransactionClient): Promise<number> {
+    const row = await tx.sync_sequence.update({
+      where: { name: CHANGE_SEQUENCE },
+      data: { value: { increment: 1 } },
+    });
+    return Number(row.value);
+  }
 
-    // Check if model exists in Prisma client
-    if (!model) {
-      console.warn(`[Sync] Model ${tableName} not found in Prisma client. Using raw SQL fallback.`);
-      // Fallback to raw SQL if model doesn't exist (e.g., Prisma client not regenerated)
-      await this.syncTableRawSQL(tableName, tableChanges, sanitizeFn);
-      return;
+  // 🪦 IDs of rows deleted in sequence range (since, until], read from the tombstone log
+  private async getDeletedIds(
+    table: SyncTableDefinition,
+    scope: DeviceScope,
+    since: number,
+    until: number,
+  ): Promise<string[]> {
+    if (table.scopeColumn && scope.locationIds.length === 0) {
+      return [];
     }
+    const tombstones = await this.prisma.sync_deletions.findMany({
+      where: {
+        table_name: table.name,
+        seq: { gt: since, lte: until },
+        ...(table.scopeColumn
+          ? { scope_value: { in: scope.locationIds } }
+          : {}),
+      },
+      select: { record_id: true },
+    });
+    return [...new Set(tombstones.map((t) => t.record_id))];
+  }
 
-    console.log(`[Sync] Using Prisma model for ${tableName}`);
+  // 🪦 Record deletions so other devices learn about them on their next pull. Each
+  // tombstone keeps the deleted row's scope column value, so only devices in that scope see it.
+  private async recordTombstones(
+    tx: Prisma.TransactionClient,
+    tableName: string,
+    tombstones: { id: string; scopeValue: string | null }[],
+    seq: number,
+  ) {
+    const rows = tombstones.map(({ id, scopeValue }) => ({
+      table_name: tableName,
+      record_id: String(id),
+      scope_value: scopeValue,
+      seq,
+    }));
+    for (const chunk of chunkRows(rows, this.writeChunkSize)) {
+      await tx.sync_deletions.createMany({ data: chunk });
+    }
+  }
 
-    // Handle created items
-    for (const item of created) {
-      try {
-        const sanitized = sanitizeFn(item);
-        console.log(`[Sync] Upserting ${tableName} item:`, sanitized.id);
-        console.log(`[Sync] 📦 Data being inserted:`, JSON.stringify(sanitized, null, 2));
-        const result = await model.upsert({
-          where: { id: sanitized.id },
-          create: sanitized,
-          update: sanitized,
-        });
-        console.log(`[Sync] ✅ Successfully upserted ${tableName} item:`, sanitized.id);
-        const serializedResult = this.serializeBigInt(result);
-        console.log(`[Sync] 🔍 Inserted record:`, JSON.stringify(serializedResult, null, 2));
-      } catch (error) {
-        console.error(`[Sync] ❌ Error upserting ${tableName}:`, error);
-        console.error(`[Sync] Item that failed:`, JSON.stringify(item, null, 2));
-        throw error;
+  // 📍 Current scope column value of each existing row among `ids`
+  private async findScopeValues(
+    tx: Prisma.TransactionClient,
+    table: SyncTableDefinition,
+    ids: string[],
+  ): Promise<Map<string, string>> {
+    const column = table.scopeColumn;
+    if (!column || ids.length === 0) {
+      return new Map();
+    }
+    const db = tx as any;
+    let rows: Record<string, any>[];
+    if (db[table.name]) {
+      rows = await db[table.name].findMany({
+        where: { id: { in: ids } },
+        select: { id: true, [column]: true },
+      });
+    } else {
+      const q = (identifier: string) => this.prisma.dialect.quote(identifier);
+      const placeholders = ids.map(() => '?').join(', ');
+      rows = await tx.$queryRawUnsafe(
+        `SELECT ${q('id')}, ${q(column)} FROM ${q(table.name)} WHERE ${q('id')} IN (${placeholders})`,
+        ...ids,
+      );
+    }
+    return new Map(rows.map((row) => [row.id, row[column]]));
+  }
+
+  // 🚧 Reject pushes touching rows outside the device's locations, both by the
+  // pushed value and by the row's current value on the server (no moving another
+  // store's order into your own scope, and no deleting it).
+  private async assertInScope(
+    tx: Prisma.TransactionClient,
+    changes: any,
+    scope: DeviceScope,
+  ) {
+    const allowed = new Set(scope.locationIds);
+    const violations: { table: string; id: string; value: string | null }[] =
+      [];
+
+    for (const table of SYNC_TABLES) {
+      const column = table.scopeColumn;
+      const tableChanges = changes[table.name];
+      if (!column || !tableChanges) {
+        continue;
+      }
+
+      const { created = [], updated = [], deleted = [] } = tableChanges;
+      for (const item of [...created, ...updated]) {
+        if (!allowed.has(item[column])) {
+          violations.push({
+            table: table.name,
+            id: item.id,
+            value: item[column] ?? null,
+          });
+        }
+      }
+
+      const ids = [
+        ...created.map((item: any) => item.id),
+        ...updated.map((item: any) => item.id),
+        ...deleted,
+      ];
+      const current = await this.findScopeValues(tx, table, ids);
+      for (const [id, value] of current) {
+        if (!allowed.has(value)) {
+          violations.push({ table: table.name, id, value });
+        }
       }
     }
 
-    // Handle updated items
-    for (const item of updated) {
-      try {
-        const sanitized = sanitizeFn(item);
-        console.log(`[Sync] Updating ${tableName} item:`, sanitized.id);
-        await model.update({
-          where: { id: sanitized.id },
-          data: sanitized,
-        });
-        console.log(`[Sync] Successfully updated ${tableName} item:`, sanitized.id);
-      } catch (error) {
-        console.error(`[Sync] Error updating ${tableName}:`, error);
-        console.error(`[Sync] Item that failed:`, item);
-        throw error;
+    if (violations.length > 0) {
+      throw new ForbiddenException({
+        statusCode: 403,
+        error: 'Forbidden',
+        message: `Device ${scope.deviceId} is not allowed to write rows outside its locations`,
+        violations,
+      });
+    }
+  }
+
+  // 🔗 Reject pushes that would leave rows pointing at rows that don't exist, with the
+  // validation pipe's 400. Server-side writes are not checked here; their services
+  // check what they delete themselves (see ProductsService.remove).
+  private async assertReferences(tx: Prisma.TransactionClient, changes: any) {
+    const errors = await findReferenceErrors(tx, this.prisma.dialect, changes);
+    if (errors.length > 0) {
+      this.metrics.recordValidationRejections(errors);
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: 'Push references rows that do not exist',
+        errors,
+      });
+    }
+  }
+
+  // 📤 Push data from client
+  // With a `batchId`, a retried push (e.g. after a lost response) returns the
+  // original result without being applied a second time.
+  async push(
+    changes: any,
+    lastPulledAt: number | undefined,
+    scope: DeviceScope,
+    batchId?: string,
+    schemaVersion?: number,
+  ) {
+    const startedAt = Date.now();
+    const summary = {
+      batchId: batchId ?? null,
+      schemaVersion: schemaVersion ?? null,
+      tables: countChanges(changes),
+    };
+    const done = this.metrics.startRequest('push');
+    this.metrics.recordPayloadSize('push', changes);
+    this.logger.debug({
+      message: 'Push payload',
+      batchId: summary.batchId,
+      changes,
+    });
+    try {
+      assertPushSchemaVersion(schemaVersion);
+      const { result, seq, replayed } = await this.applyPushOnce(
+        changes,
+        lastPulledAt,
+        scope,
+        batchId,
+      );
+      done(replayed ? 'replayed' : 'success');
+      this.logger.log({
+        message: 'Push applied',
+        ...summary,
+        seq,
+        replayed,
+        durationMs: Date.now() - startedAt,
+      });
+      return result;
+    } catch (error) {
+      done('error');
+      this.logger.warn({
+        message: 'Push failed',
+        ...summary,
+        durationMs: Date.now() - startedAt,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  private async applyPushOnce(
+    changes: any,
+    lastPulledAt: number | undefined,
+    scope: DeviceScope,
+    batchId: string | undefined,
+  ): Promise<{ result: object; seq: number | null; replayed: boolean }> {
+    if (batchId) {
+      const previous = await this.findAppliedBatch(scope.deviceId, batchId);
+      if (previous) {
+        return { result: previous, seq: null, replayed: true };
       }
     }
 
-    // Handle deleted items
-    for (const id of deleted) {
-      try {
-        console.log(`[Sync] Deleting ${tableName} item:`, id);
-        await model.delete({ where: { id } });
-        console.log(`[Sync] Successfully deleted ${tableName} item:`, id);
-      } catch (error) {
-        // Silently ignore delete errors (item might not exist)
-        console.warn(`[Sync] Error deleting ${tableName} with id ${id}:`, error);
+    // A client that never pulled has seen nothing, so every existing server row is newer
+    const since = lastPulledAt ?? 0;
+    const result = { success: true };
+
+    // All-or-nothing: any failure rolls back every table, so a client retry starts from a clean slate
+    let event: SyncChangeEvent | null;
+    try {
+      event = await this.applyPush(changes, since, scope, batchId, result);
+    } catch (error: any) {
+      // A concurrent retry of the same batch committed first: ours rolled back, replay theirs
+      const previous =
+        batchId &&
+        error?.code === 'P2002' &&
+        (await this.findAppliedBatch(scope.deviceId, batchId));
+      if (previous) {
+        return { result: previous, seq: null, replayed: true };
       }
+      throw error;
     }
+
+    await this.publishChangeEvent(event);
+    return { result, seq: event?.seq ?? null, replayed: false };
   }
 
-  // 🔄 Fallback: Sync using raw SQL when Prisma model doesn't exist
-  private async syncTableRawSQL(tableName: string, tableChanges: any, sanitizeFn: (item: any) => any) {
-    const { created = [], updated = [], deleted = [] } = tableChanges;
+  // ✍️ Write changes made on the server (admin tools) through the same path as a push:
+  // stamped with a change sequence, tombstoned and announced, so devices pick them up
+  // on their next pull. Scope and conflict checks don't apply. `prepare` builds the
+  // changes (in push format) inside the transaction while the sequence lock is held,
+  // so checks it makes cannot be invalidated by a concurrent write.
+  async applyServerChanges(
+    prepare: (tx: Prisma.TransactionClient) => Promise<any>,
+  ) {
+    const event = await this.prisma.$transaction(async (tx) => {
+      const seq = await this.nextSequence(tx);
+      return this.writeChanges(tx, await prepare(tx), {
+        deviceId: null,
+        seq,
+        dialect: this.prisma.dialect,
+      });
+    }, PUSH_TRANSACTION_OPTIONS);
+    await this.publishChangeEvent(event);
+  }
 
-    // Handle created/updated items with INSERT ... ON DUPLICATE KEY UPDATE
-    for (const item of [...created, ...updated]) {
-      try {
-        const sanitized = sanitizeFn(item);
-        console.log(`[Sync] Processing ${tableName} item:`, sanitized);
-        
-        if (tableName === 'mh_products') {
-          // Escape values for SQL
-          const escapeValue = (val: any, fieldName: string): string => {
-            if (val === null || val === undefined) {
-              // Allow NULL for optional fields like description
-              if (fieldName === 'description') return 'NULL';
-              return 'NULL';
-            }
-            if (typeof val === 'string') {
-              // Escape single quotes in strings
-              return `'${val.replace(/'/g, "''").replace(/\\/g, '\\\\')}'`;
-            }
-            if (typeof val === 'boolean') return val ? '1' : '0';
-            if (val instanceof Date) {
-              // Format date for MySQL DATETIME: YYYY-MM-DD HH:MM:SS
-              const year = val.getFullYear();
-              const month = String(val.getMonth() + 1).padStart(2, '0');
-              const day = String(val.getDate()).padStart(2, '0');
-              const hours = String(val.getHours()).padStart(2, '0');
-              const minutes = String(val.getMinutes()).padStart(2, '0');
-              const seconds = String(val.getSeconds()).padStart(2, '0');
-              return `'${year}-${month}-${day} ${hours}:${minutes}:${seconds}'`;
-            }
-            if (typeof val === 'number') {
-              // Handle decimal numbers properly
-              return String(val);
-            }
-            return String(val);
-          };
-
-          // Build field list and values
-          const fields = Object.keys(sanitized).map(f => `\`${f}\``);
-          const values = Object.entries(sanitized).map(([key, val]) => escapeValue(val, key));
-          const updates = Object.keys(sanitized)
-            .filter(key => key !== 'id')
-            .map(key => `\`${key}\` = VALUES(\`${key}\`)`)
-            .join(', ');
-          
-          const sql = `INSERT INTO \`${tableName}\` (${fields.join(', ')}) VALUES (${values.join(', ')}) ON DUPLICATE KEY UPDATE ${updates}`;
-          
-          console.log(`[Sync] 📝 Executing SQL for ${tableName}:`);
-          console.log(`[Sync] SQL:`, sql);
-          console.log(`[Sync] 📦 Data being inserted:`, JSON.stringify(sanitized, null, 2));
-          
-          const result = await this.prisma.$executeRawUnsafe(sql);
-          console.log(`[Sync] ✅ SQL executed successfully. Rows affected:`, result);
-          
-          // Verify the data was inserted by querying it back
-          try {
-            const inserted = await this.prisma.$queryRawUnsafe(
-              `SELECT * FROM \`${tableName}\` WHERE \`id\` = '${sanitized.id.replace(/'/g, "''")}'`
-            ) as any[];
-            const serializedInserted = this.serializeBigInt(inserted);
-            console.log(`[Sync] 🔍 Verified inserted data:`, JSON.stringify(serializedInserted, null, 2));
-          } catch (verifyError) {
-            console.warn(`[Sync] ⚠️ Could not verify inserted data:`, verifyError);
-          }
-        } else {
-          throw new Error(`Raw SQL sync not implemented for table: ${tableName}`);
-        }
-      } catch (error) {
-        console.error(`[Sync] Error syncing ${tableName} with raw SQL:`, error);
-        console.error(`[Sync] Item that failed:`, item);
-        throw error;
-      }
+  // 🧾 Reserve a range of canonical order numbers for printing receipts offline.
+  // Orders pushed later with a number from the range keep it.
+  async reserveOrderNumbers(
+    scope: DeviceScope,
+    locationId: string,
+    count: number,
+  ) {
+    if (!scope.locationIds.includes(locationId)) {
+      throw new ForbiddenException(
+        `Device ${scope.deviceId} is not bound to location ${locationId}`,
+      );
     }
+    const first = await this.prisma.$transaction(async (tx) => {
+      const firstValue = await allocateOrderNumbers(tx, locationId, count);
+      await tx.sync_order_number_reservations.create({
+        data: {
+          device_id: scope.deviceId,
+          location_id: locationId,
+          first_value: firstValue,
+          last_value: firstValue + count - 1,
+        },
+      });
+      return firstValue;
+    });
+    return {
+      location_id: locationId,
+      first: formatOrderNumber(first),
+      last: formatOrderNumber(first + count - 1),
+    };
+  }
+
+  private async publishChangeEvent(event: SyncChangeEvent | null) {
+    if (event) {
+      // Only a hint for connected devices: the changes are committed whether or not this reaches them
+      await this.eventBus.publish(event).catch((error) =>
+        this.logger.warn({
+          message: 'Could not publish change event',
+          seq: event.seq,
+          error,
+        }),
+      );
+    }
+  }
+
+  // Applies the push in one transaction; returns the change event to publish, null if nothing changed
+  private async applyPush(
+    changes: any,
+    since: number,
+    scope: DeviceScope,
+    batchId: string | undefined,
+    result: object,
+  ): Promise<SyncChangeEvent | null> {
+    return this.prisma.$transaction(async (tx) => {
+      // Taken first: holding the sequence lock keeps conflict checks and writes of concurrent pushes apart
+      const seq = await this.nextSequence(tx);
+      await this.assertInScope(tx, changes ?? {}, scope);
+      const resolved = await this.resolveConflicts(tx, changes ?? {}, since);
+      await this.assertReferences(tx, resolved);
+      const event = await this.writeChanges(tx, resolved, {
+        deviceId: scope.deviceId,
+        seq,
+        dialect: this.prisma.dialect,
+      });
 
-    // Handle deleted items
-    for (const id of deleted) {
-      try {
-        const escapedId = typeof id === 'string' ? `'${id.replace(/'/g, "''")}'` : String(id);
-        await this.prisma.$executeRawUnsafe(`DELETE FROM \`${tableName}\` WHERE \`id\` = ${escapedId}`);
-      } catch (error) {
-        console.warn(`[Sync] Error deleting ${tableName} with id ${id}:`, error);
+      // Recorded in the same transaction, so a batch is remembered exactly when its changes are committed
+      if (batchId) {
+        // An expired row the maintenance job has not purged yet counts as unseen
+        await tx.sync_push_batches.deleteMany({
+          where: {
+            device_id: scope.deviceId,
+            batch_id: batchId,
+            expires_at: { lte: new Date() },
+          },
+        });
+        await tx.sync_push_batches.create({
+          data: {
+            device_id: scope.deviceId,
+            batch_id: batchId,
+            result: JSON.stringify(result),
+            expires_at: new Date(Date.now() + PUSH_BATCH_TTL_MS),
+          },
+        });
+      }
+      return event;
+    }, PUSH_TRANSACTION_OPTIONS);
+  }
+
+  // Writes every table's changes in registry order; returns the change event to publish, null if nothing changed
+  private async writeChanges(
+    tx: Prisma.TransactionClient,
+    changes: any,
+    context: SyncWriteContext,
+  ): Promise<SyncChangeEvent | null> {
+    const event: SyncChangeEvent = { seq: context.seq, tables: [] };
+    for (const table of SYNC_TABLES) {
+      if (changes[table.name]) {
+        const tableChanges = table.beforeWrite
+          ? await table.beforeWrite(tx, changes[table.name], context)
+          : changes[table.name];
+        const touched = await this.describeTableChanges(
+          tx,
+          table,
+          tableChanges,
+        );
+        await this.syncTable(tx, table, tableChanges, context.seq);
+        if (touched) {
+          this.addTouchedTable(event, touched);
+        }
+        for (const derived of (await table.afterWrite?.(
+          tx,
+          tableChanges,
+          context,
+        )) ?? []) {
+          this.addTouchedTable(event, derived);
+        }
       }
     }
+    return event.tables.length > 0 ? event : null;
   }
 
-  // 🧹 Sanitize order data: remove sync metadata and convert date/time fields
-  private sanitizeOrderData(item: any) {
-    const { _status, _changed, ...rest } = item;
-    
-    // Convert order_date from timestamp to Date
-    const order_date = item.order_date 
-      ? new Date(typeof item.order_date === 'number' ? item.order_date : new Date(item.order_date).getTime())
-      : new Date();
-
-    // Convert order_time from string to DateTime
-    // If it's a string like "18:34:16", combine with order_date
-    let order_time: Date;
-    if (typeof item.order_time === 'string') {
-      const [hours, minutes, seconds] = item.order_time.split(':').map(Number);
-      order_time = new Date(order_date);
-      order_time.setHours(hours || 0, minutes || 0, seconds || 0, 0);
-    } else if (typeof item.order_time === 'number') {
-      order_time = new Date(item.order_time);
+  private addTouchedTable(event: SyncChangeEvent, touched: SyncTouchedTable) {
+    const existing = event.tables.find((table) => table.name === touched.name);
+    if (!existing) {
+      event.tables.push(touched);
+    } else if (existing.scopeValues && touched.scopeValues) {
+      existing.scopeValues = [
+        ...new Set([...existing.scopeValues, ...touched.scopeValues]),
+      ];
     } else {
-      order_time = new Date();
+      existing.scopeValues = null;
     }
+  }
 
-    // Convert updated_at from timestamp to Date (or use current time)
-    const updated_at = item.updated_at 
-      ? new Date(typeof item.updated_at === 'number' ? item.updated_at : new Date(item.updated_at).getTime())
-      : new Date();
+  // 📣 Entry of the change event for one table, or null if the push leaves it untouched.
+  // Scope values are read before the rows are written, while deleted rows still exist.
+  private async describeTableChanges(
+    tx: Prisma.TransactionClient,
+    table: SyncTableDefinition,
+    tableChanges: any,
+  ): Promise<SyncChangeEvent['tables'][number] | null> {
+    const { created = [], updated = [], deleted = [] } = tableChanges;
+    if (created.length + updated.length + deleted.length === 0) {
+      return null;
+    }
+    const column = table.scopeColumn;
+    if (!column) {
+      return { name: table.name, scopeValues: null };
+    }
+    const scopeValues = new Set<string>(
+      [...created, ...updated].map((item: any) => item[column]),
+    );
+    for (const value of (
+      await this.findScopeValues(tx, table, deleted)
+    ).values()) {
+      scopeValues.add(value);
+    }
+    return { name: table.name, scopeValues: [...scopeValues] };
+  }
 
-    return {
-      ...rest,
-      order_date,
-      order_time,
-      updated_at,
-    };
+  // 📡 Change notifications for one device: the tables a committed push touched
+  // within its scope, and the sequence to pull up to. Carries no row data.
+  changeEvents(scope: DeviceScope): Observable<MessageEvent> {
+    const allowed = new Set(scope.locationIds);
+    return this.eventBus.events().pipe(
+      map((event) => ({
+        seq: event.seq,
+        tables: event.tables
+          .filter(
+            (table) =>
+              table.scopeValues === null ||
+              table.scopeValues.some((value) => allowed.has(value)),
+          )
+          .map((table) => table.name),
+      })),
+      filter((change) => change.tables.length > 0),
+      map((change) => ({ type: 'changes', data: change })),
+    );
   }
 
-  // 🧹 Sanitize product data: remove sync metadata and convert fields
-  private sanitizeProductData(item: any) {
-    const { _status, _changed, ...rest } = item;
+  // 🔁 Stored result of a batch this device already pushed, if it has not expired
+  private async findAppliedBatch(
+    deviceId: string,
+    batchId: string,
+  ): Promise<object | null> {
+    const batch = await this.prisma.sync_push_batches.findUnique({
+      where: { device_id_batch_id: { device_id: deviceId, batch_id: batchId } },
+    });
+    if (!batch || batch.expires_at <= new Date()) {
+      return null;
+    }
+    return JSON.parse(batch.result);
+  }
 
-    // Convert price to Decimal (Prisma Decimal type)
-    const price = typeof item.price === 'number' ? item.price : parseFloat(String(item.price)) || 0;
+  // ⚔️ Apply each table's conflict policy. Throws 409 if any `reject` table has conflicts,
+  // otherwise returns the changes with `server-wins` conflicts filtered out.
+  private async resolveConflicts(
+    tx: Prisma.TransactionClient,
+    changes: any,
+    since: number,
+  ) {
+    const resolved: any = { ...changes };
+    const conflicts: { table: string; ids: string[] }[] = [];
 
-    // Convert stock_quantity to integer
-    const stock_quantity = typeof item.stock_quantity === 'number' 
-      ? Math.floor(item.stock_quantity) 
-      : parseInt(String(item.stock_quantity), 10) || 0;
+    for (const { name: tableName, conflictPolicy: policy } of SYNC_TABLES) {
+      const tableChanges = changes[tableName];
+      if (!tableChanges || policy === 'last-write-wins') {
+        continue;
+      }
 
-    // Convert is_active to boolean
-    const is_active = typeof item.is_active === 'boolean' 
-      ? item.is_active 
-      : item.is_active === 'true' || item.is_active === true || item.is_active === 1;
+      const { created = [], updated = [], deleted = [] } = tableChanges;
+      const ids = [
+        ...created.map((item: any) => item.id),
+        ...updated.map((item: any) => item.id),
+        ...deleted,
+      ];
+      const conflictingIds = await this.findChangedSince(
+        tx,
+        tableName,
+        ids,
+        since,
+      );
+      if (conflictingIds.size === 0) {
+        continue;
+      }
 
-    // Convert updated_at from timestamp to Date (or use current time)
-    let updated_at: Date;
-    if (item.updated_at) {
-      if (typeof item.updated_at === 'number') {
-        updated_at = new Date(item.updated_at);
-      } else if (item.updated_at instanceof Date) {
-        updated_at = item.updated_at;
+      this.logger.warn({
+        message: 'Conflicting rows',
+        table: tableName,
+        policy,
+        count: conflictingIds.size,
+      });
+      this.metrics.recordConflicts(tableName, policy, conflictingIds.size);
+      if (policy === 'reject') {
+        conflicts.push({ table: tableName, ids: [...conflictingIds] });
       } else {
-        updated_at = new Date(String(item.updated_at));
+        resolved[tableName] = {
+          created: created.filter((item: any) => !conflictingIds.has(item.id)),
+          updated: updated.filter((item: any) => !conflictingIds.has(item.id)),
+          deleted: deleted.filter((id: string) => !conflictingIds.has(id)),
+        };
       }
+    }
+
+    if (conflicts.length > 0) {
+      throw new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message:
+          'Server has changes newer than last_pulled_at. Pull and retry the push.',
+        conflicts,
+      });
+    }
+
+    return resolved;
+  }
+
+  // IDs among `ids` whose server row was written after sequence `since`
+  private async findChangedSince(
+    tx: Prisma.TransactionClient,
+    tableName: string,
+    ids: string[],
+    since: number,
+  ): Promise<Set<string>> {
+    if (ids.length === 0) {
+      return new Set();
+    }
+    const db = tx as any;
+    const model = db[tableName];
+    let rows: { id: string }[];
+    if (model) {
+      rows = await model.findMany({
+        where: { id: { in: ids }, server_seq: { gt: since } },
+        select: { id: true },
+      });
     } else {
-      updated_at = new Date();
+      const q = (identifier: string) => this.prisma.dialect.quote(identifier);
+      const placeholders = ids.map(() => '?').join(', ');
+      rows = await tx.$queryRawUnsafe(
+        `SELECT ${q('id')} FROM ${q(tableName)} WHERE ${q('id')} IN (${placeholders}) AND ${q('server_seq')} > ?`,
+        ...ids,
+        since,
+      );
     }
+    return new Set(rows.map((row) => row.id));
+  }
 
-    // Handle description - can be null/undefined/empty string
-    const description = item.description && item.description.trim() !== '' ? item.description : null;
+  // 🔄 Generic sync handler for any table. Every written row is stamped with the
+  // push's change sequence and the server's clock; client timestamps are never trusted.
+  private async syncTable(
+    tx: Prisma.TransactionClient,
+    table: SyncTableDefinition,
+    tableChanges: any,
+    seq: number,
+  ) {
+    const { created = [], updated = [], deleted = [] } = tableChanges;
+    const endTable = this.metrics.startTable('write', table.name);
+    try {
+      const db = tx as any;
+      // Check if model exists in Prisma client
+      if (!db[table.name]) {
+        this.logger.warn(
+          `Model ${table.name} not found in Prisma client, using raw SQL fallback`,
+        );
+        this.metrics.recordRawSqlFallback(table.name);
+      }
+      await this.upsertRows(tx, table, [...created, ...updated], seq);
+      await this.deleteRows(tx, table, deleted, seq);
+    } finally {
+      endTable();
+    }
+    this.metrics.recordRows('write', table.name, {
+      created: created.length,
+      updated: updated.length,
+      deleted: deleted.length,
+    });
+  }
 
-    return {
-      id: item.id,
-      product_code: item.product_code,
-      product_name: item.product_name,
-      description: description,
-      price: price,
-      stock_quantity: stock_quantity,
-      is_active: is_active,
-      updated_at: updated_at,
-    };
+  // 🔄 Write created and updated rows with multi-row upserts. A row missing on the server
+  // is inserted from the full record; an existing row only takes the columns the client
+  // changed, so rows are grouped by the columns they insert and update. Column names come
+  // from the table registry and every value is bound as a parameter, in the SQL dialect
+  // of the configured database.
+  private async upsertRows(
+    tx: Prisma.TransactionClient,
+    table: SyncTableDefinition,
+    items: any[],
+    seq: number,
+  ) {
+    const dialect = this.prisma.dialect;
+    const columns = new Map<string, SyncColumnDefinition>(
+      table.columns.map((column) => [column.name, column]),
+    );
+    // Keys of a sanitized row that are real columns; anything else is never put into SQL
+    const writable = (row: Record<string, any>) =>
+      Object.keys(row).filter(
+        (key) =>
+          columns.has(key) ||
+          (SYNC_SEQUENCE_COLUMNS as readonly string[]).includes(key),
+      );
+    const stamp = { server_seq: seq, updated_at: new Date() };
+
+    const groups = new Map<
+      string,
+      { fields: string[]; updates: string[]; records: Record<string, any>[] }
+    >();
+    for (const item of items) {
+      const row = table.sanitize(item);
+      const record: Record<string, any> = {
+        ...row,
+        ...stamp,
+        created_seq: seq,
+      };
+      const fields = writable(record);
+      const updates = writable({
+        ...this.pickChangedColumns(item, row),
+        ...stamp,
+      });
+      const key = JSON.stringify([fields, updates]);
+      const group = groups.get(key) ?? { fields, updates, records: [] };
+      group.records.push(record);
+      groups.set(key, group);
+    }
+
+    for (const { fields, updates, records } of groups.values()) {
+      const size = Math.min(
+        this.writeChunkSize,
+        Math.floor(dialect.maxParams / fields.length),
+      );
+      for (const chunk of chunkRows(records, size)) {
+        const sql = dialect.upsert(
+          table.name,
+          fields,
+          updates,
+          'id',
+          chunk.length,
+        );
+        const params = chunk.flatMap((record) =>
+          fields.map((field) =>
+            toSqlParam(record[field], columns.get(field), dialect),
+          ),
+        );
+        this.logger.debug({
+          message: 'Upserting rows',
+          table: table.name,
+          rows: chunk.length,
+          updates,
+        });
+        try {
+          await tx.$executeRawUnsafe(sql, ...params);
+        } catch (error) {
+          this.logger.error({
+            message: 'Could not upsert rows',
+            table: table.name,
+            ids: chunk.map((record) => record.id),
+            error,
+          });
+          throw error;
+        }
+      }
+    }
+  }
+
+  // 🧩 Columns to apply to an existing row: those the client listed in `_changed`.
+  // Names that are not columns of the sanitized row (server-owned or local-only
+  // fields) are ignored. Without a `_changed` list (a fresh create, or a client that
+  // does not track changes) the whole record is applied.
+  private pickChangedColumns(
+    item: any,
+    sanitized: Record<string, any>,
+  ): Record<string, any> {
+    const changed =
+      typeof item._changed === 'string'
+        ? item._changed
+            .split(',')
+            .map((name: string) => name.trim())
+            .filter(Boolean)
+        : [];
+    if (changed.length === 0) {
+      return sanitized;
+    }
+    const picked: Record<string, any> = {};
+    for (const name of changed) {
+      if (name !== 'id' && name in sanitized) {
+        picked[name] = sanitized[name];
+      }
+    }
+    return picked;
+  }
+
+  // 🗑️ Delete rows in chunks and tombstone them. Deleting a row that is already gone is a
+  // no-op, so only real database errors abort (and roll back) the push.
+  private async deleteRows(
+    tx: Prisma.TransactionClient,
+    table: SyncTableDefinition,
+    deleted: any[],
+    seq: number,
+  ) {
+    if (deleted.length === 0) {
+      return;
+    }
+    const model = (tx as any)[table.name];
+    const q = (identifier: string) => this.prisma.dialect.quote(identifier);
+    const ids: string[] = deleted.map((id) => String(id));
+    const deletedScopes = await this.findScopeValues(tx, table, ids);
+    for (const chunk of chunkRows(
+      ids,
+      Math.min(this.writeChunkSize, this.prisma.dialect.maxParams),
+    )) {
+      this.logger.debug({
+        message: 'Deleting rows',
+        table: table.name,
+        rows: chunk.length,
+      });
+      if (model) {
+        await model.deleteMany({ where: { id: { in: chunk } } });
+      } else {
+        await tx.$executeRawUnsafe(
+          `DELETE FROM ${q(table.name)} WHERE ${q('id')} IN (${chunk.map(() => '?').join(', ')})`,
+          ...chunk,
+        );
+      }
+    }
+    // Tombstone even rows that were already gone, other devices may still hold them
+    await this.recordTombstones(
+      tx,
+      table.name,
+      ids.map((id) => ({ id, scopeValue: deletedScopes.get(id) ?? null })),
+      seq,
+    );
   }
 }
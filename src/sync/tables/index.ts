@@ -0,0 +1,23 @@
+import { mhOffOrderItemsTable } from './mh-off-order-items.table';
+import { mhOffOrdersTable } from './mh-off-orders.table';
+import { mhProductsTable } from './mh-products.table';
+import { mhStockMovementsTable } from './mh-stock-movements.table';
+import { SyncTableDefinition } from './sync-table';
+
+export * from './sync-table';
+
+// Every table synced with WatermelonDB clients. Pull, push, health checks, the
+// startup DDL and the Swagger docs are all driven by this list; to sync a new
+// table, add its definition here. Pushes are applied in this order.
+export const SYNC_TABLES: SyncTableDefinition[] = [
+  mhOffOrdersTable,
+  mhProductsTable,
+  // After products, so a product created in the same push is reconciled too
+  mhStockMovementsTable,
+  // After the orders and products its rows reference
+  mhOffOrderItemsTable,
+];
+
+export function getSyncTable(name: string): SyncTableDefinition | undefined {
+  return SYNC_TABLES.find((table) => table.name === name);
+}
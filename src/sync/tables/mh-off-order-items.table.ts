@@ -0,0 +1,51 @@
+import { MhOffOrderItemDto } from '../dto/mh-off-order-item.dto';
+import { changedSince, SyncTableDefinition } from './sync-table';
+
+// 🧹 Sanitize item data: keep only the line columns
+function sanitizeOrderItemData(item: MhOffOrderItemDto) {
+  return {
+    id: item.id,
+    order_id: item.order_id,
+    product_id: item.product_id,
+    location_id: item.location_id,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+  };
+}
+
+export const mhOffOrderItemsTable: SyncTableDefinition = {
+  name: 'mh_off_order_items',
+  columns: [
+    { name: 'id', type: 'string', sqlType: 'VARCHAR(36)' },
+    { name: 'order_id', type: 'string', sqlType: 'VARCHAR(36)' },
+    { name: 'product_id', type: 'string', sqlType: 'VARCHAR(36)' },
+    // The order's location, so items are scoped like their order without a join
+    { name: 'location_id', type: 'string', sqlType: 'VARCHAR(36)' },
+    { name: 'quantity', type: 'int', sqlType: 'INT' },
+    { name: 'unit_price', type: 'decimal', sqlType: 'DECIMAL(10, 2)' },
+    {
+      name: 'created_at',
+      type: 'datetime',
+      sqlType: 'DATETIME(3)',
+      default: 'CURRENT_TIMESTAMP(3)',
+    },
+    {
+      name: 'updated_at',
+      type: 'datetime',
+      sqlType: 'DATETIME(3)',
+      default: 'CURRENT_TIMESTAMP(3)',
+    },
+  ],
+  recordDto: MhOffOrderItemDto,
+  sanitize: sanitizeOrderItemData,
+  pullFilter: changedSince,
+  // Items are rung up together with their order, on the same till
+  conflictPolicy: 'last-write-wins',
+  scopeColumn: 'location_id',
+  references: [
+    { column: 'order_id', table: 'mh_off_orders', sameColumn: 'location_id' },
+    { column: 'product_id', table: 'mh_products' },
+  ],
+  // Order items shipped with client schema version 3
+  sinceSchemaVersion: 3,
+};
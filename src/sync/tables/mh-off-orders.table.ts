@@ -0,0 +1,86 @@
+import { MhOffOrderDto } from '../dto/mh-off-order.dto';
+import { assignOrderNumbers } from '../order-numbers';
+import { changedSince, SyncTableDefinition, toDate } from './sync-table';
+
+// 🧹 Sanitize order data: remove sync metadata and convert date/time fields.
+// Input has already passed MhOffOrderDto validation, so required fields are present.
+// created_at and updated_at are server-owned and never taken from the client.
+function sanitizeOrderData(item: MhOffOrderDto & { device_order_no?: string }) {
+  const order_date = toDate(item.order_date);
+
+  // Convert order_time to DateTime
+  // If it's a string like "18:34:16", combine with order_date
+  let order_time: Date;
+  if (typeof item.order_time === 'string') {
+    const [hours, minutes, seconds = 0] = item.order_time
+      .split(':')
+      .map(Number);
+    order_time = new Date(order_date);
+    order_time.setHours(hours, minutes, seconds, 0);
+  } else {
+    order_time = new Date(item.order_time);
+  }
+
+  return {
+    id: item.id,
+    location_id: item.location_id,
+    customer_id: item.customer_id ?? null,
+    order_no: item.order_no,
+    order_type_id: item.order_type_id,
+    order_date,
+    order_time,
+    ip_address: item.ip_address,
+    user_agent: item.user_agent,
+    // Set by assignOrderNumbers when the server first numbers the order
+    ...(item.device_order_no !== undefined && {
+      device_order_no: item.device_order_no,
+    }),
+  };
+}
+
+export const mhOffOrdersTable: SyncTableDefinition = {
+  name: 'mh_off_orders',
+  columns: [
+    { name: 'id', type: 'string', sqlType: 'VARCHAR(36)' },
+    { name: 'location_id', type: 'string', sqlType: 'VARCHAR(36)' },
+    {
+      name: 'customer_id',
+      type: 'string',
+      sqlType: 'VARCHAR(36)',
+      nullable: true,
+    },
+    // Canonical number assigned by the server on the first push
+    { name: 'order_no', type: 'string', sqlType: 'VARCHAR(15)' },
+    // Provisional number the device issued offline, kept for reference
+    {
+      name: 'device_order_no',
+      type: 'string',
+      sqlType: 'VARCHAR(15)',
+      nullable: true,
+    },
+    { name: 'order_type_id', type: 'string', sqlType: 'VARCHAR(36)' },
+    { name: 'order_date', type: 'date', sqlType: 'DATE' },
+    { name: 'order_time', type: 'time', sqlType: 'TIME(0)' },
+    { name: 'ip_address', type: 'string', sqlType: 'VARCHAR(40)' },
+    { name: 'user_agent', type: 'string', sqlType: 'VARCHAR(256)' },
+    {
+      name: 'created_at',
+      type: 'datetime',
+      sqlType: 'DATETIME(3)',
+      default: 'CURRENT_TIMESTAMP(3)',
+    },
+    {
+      name: 'updated_at',
+      type: 'datetime',
+      sqlType: 'DATETIME(3)',
+      default: 'CURRENT_TIMESTAMP(3)',
+    },
+  ],
+  recordDto: MhOffOrderDto,
+  sanitize: sanitizeOrderData,
+  pullFilter: changedSince,
+  // Orders are append-mostly and owned by the till that rang them up
+  conflictPolicy: 'last-write-wins',
+  scopeColumn: 'location_id',
+  beforeWrite: assignOrderNumbers,
+};
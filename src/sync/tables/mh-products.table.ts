@@ -0,0 +1,55 @@
+import { MhProductDto } from '../dto/mh-product.dto';
+import { assertUniqueProductCodes } from '../product-codes';
+import { changedSince, SyncTableDefinition } from './sync-table';
+
+// 🧹 Sanitize product data: remove sync metadata and convert fields.
+// Input has already passed MhProductDto validation, so types are exact.
+// updated_at is server-owned and stamped when the row is written; stock_quantity
+// is derived from mh_stock_movements and never taken from the client.
+function sanitizeProductData(item: MhProductDto) {
+  // Handle description - can be null/undefined/empty string
+  const description =
+    item.description && item.description.trim() !== ''
+      ? item.description
+      : null;
+
+  return {
+    id: item.id,
+    product_code: item.product_code,
+    product_name: item.product_name,
+    description: description,
+    price: item.price,
+    is_active: item.is_active,
+  };
+}
+
+export const mhProductsTable: SyncTableDefinition = {
+  name: 'mh_products',
+  columns: [
+    { name: 'id', type: 'string', sqlType: 'VARCHAR(36)' },
+    { name: 'product_code', type: 'string', sqlType: 'VARCHAR(50)' },
+    { name: 'product_name', type: 'string', sqlType: 'VARCHAR(255)' },
+    { name: 'description', type: 'text', sqlType: 'TEXT', nullable: true },
+    { name: 'price', type: 'decimal', sqlType: 'DECIMAL(10, 2)' },
+    { name: 'stock_quantity', type: 'int', sqlType: 'INT', default: '0' },
+    { name: 'is_active', type: 'boolean', sqlType: 'BOOLEAN', default: 'true' },
+    {
+      name: 'created_at',
+      type: 'datetime',
+      sqlType: 'DATETIME(3)',
+      default: 'CURRENT_TIMESTAMP(3)',
+    },
+    {
+      name: 'updated_at',
+      type: 'datetime',
+      sqlType: 'DATETIME(3)',
+      default: 'CURRENT_TIMESTAMP(3)',
+    },
+  ],
+  recordDto: MhProductDto,
+  sanitize: sanitizeProductData,
+  pullFilter: changedSince,
+  // The catalog is edited from several tills, never overwrite a newer price blindly
+  conflictPolicy: 'reject',
+  beforeWrite: assertUniqueProductCodes,
+};
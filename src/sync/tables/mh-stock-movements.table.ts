@@ -0,0 +1,62 @@
+import { MhStockMovementDto } from '../dto/mh-stock-movement.dto';
+import { reconcileMovedProducts } from '../stock-ledger';
+import { changedSince, SyncTableDefinition } from './sync-table';
+
+// 🧹 Sanitize movement data: keep only the ledger columns
+function sanitizeMovementData(item: MhStockMovementDto) {
+  return {
+    id: item.id,
+    product_id: item.product_id,
+    location_id: item.location_id ?? null,
+    movement_type: item.movement_type,
+    quantity: item.quantity,
+    order_id: item.order_id ?? null,
+  };
+}
+
+export const mhStockMovementsTable: SyncTableDefinition = {
+  name: 'mh_stock_movements',
+  columns: [
+    { name: 'id', type: 'string', sqlType: 'VARCHAR(36)' },
+    { name: 'product_id', type: 'string', sqlType: 'VARCHAR(36)' },
+    // Null for movements recorded on the server (opening balances, admin adjustments)
+    {
+      name: 'location_id',
+      type: 'string',
+      sqlType: 'VARCHAR(36)',
+      nullable: true,
+    },
+    // sale, return, adjustment; opening for balances carried over from stock_quantity
+    { name: 'movement_type', type: 'string', sqlType: 'VARCHAR(16)' },
+    { name: 'quantity', type: 'int', sqlType: 'INT' },
+    {
+      name: 'order_id',
+      type: 'string',
+      sqlType: 'VARCHAR(36)',
+      nullable: true,
+    },
+    {
+      name: 'created_at',
+      type: 'datetime',
+      sqlType: 'DATETIME(3)',
+      default: 'CURRENT_TIMESTAMP(3)',
+    },
+    {
+      name: 'updated_at',
+      type: 'datetime',
+      sqlType: 'DATETIME(3)',
+      default: 'CURRENT_TIMESTAMP(3)',
+    },
+  ],
+  recordDto: MhStockMovementDto,
+  sanitize: sanitizeMovementData,
+  pullFilter: changedSince,
+  // Movements are immutable, a re-pushed one is the same movement
+  conflictPolicy: 'last-write-wins',
+  scopeColumn: 'location_id',
+  appendOnly: true,
+  // The ledger shipped with client schema version 2
+  sinceSchemaVersion: 2,
+  // mh_products.stock_quantity is derived from the ledger
+  afterWrite: reconcileMovedProducts,
+};
@@ -0,0 +1,141 @@
+import { Type } from '@nestjs/common';
+import type { Prisma } from '@prisma/client';
+import type { SqlDialect } from '../../prisma/sql-dialect';
+import { SyncRecordDto } from '../dto/sync-record.dto';
+
+// How to handle a pushed row that changed on the server after the client's last_pulled_at:
+// - reject:          fail the whole push with 409 so the client pulls and retries (WatermelonDB protocol)
+// - last-write-wins: apply the client's changed columns anyway
+// - server-wins:     drop the client's change for that row and keep the server version
+export type ConflictPolicy = 'reject' | 'last-write-wins' | 'server-wins';
+
+export type SyncColumnType =
+  | 'string'
+  | 'text'
+  | 'decimal'
+  | 'int'
+  | 'boolean'
+  | 'date'
+  | 'time'
+  | 'datetime';
+
+export interface SyncColumnDefinition {
+  name: string;
+  type: SyncColumnType;
+  // Column type as written in the CREATE TABLE statement, e.g. `VARCHAR(36)`
+  sqlType: string;
+  nullable?: boolean;
+  // SQL default expression, e.g. `CURRENT_TIMESTAMP(3)`
+  default?: string;
+  // Client schema version that added the column (default 1). Clients migrating
+  // past it pull every row of the table again to fill it in.
+  sinceSchemaVersion?: number;
+}
+
+// One table's entry in a push body
+export interface SyncTableChanges {
+  created?: any[];
+  updated?: any[];
+  deleted?: string[];
+}
+
+export interface SyncWriteContext {
+  // Device that pushed the changes, null for server-side (admin) writes
+  deviceId: string | null;
+  // Change sequence the writes are stamped with
+  seq: number;
+  // Dialect of raw queries the hooks fall back to
+  dialect: SqlDialect;
+}
+
+// A table written as a side effect of another table's changes
+export interface SyncTouchedTable {
+  name: string;
+  // Scope column values of the touched rows, null for global tables
+  scopeValues: string[] | null;
+}
+
+// A column holding the id of a row in another registered table. Pushes may only
+// point it at rows that exist or are created in the same push, and may not delete
+// rows still pointed at; pulls send a referenced row along when the client lacks it.
+export interface SyncTableReference {
+  column: string;
+  table: string;
+  // Column that must hold the same value in both rows, e.g. the scope column
+  sameColumn?: string;
+}
+
+export interface SyncTableDefinition {
+  name: string;
+  columns: SyncColumnDefinition[];
+  // class-validator DTO a pushed record must satisfy; also documents the record in Swagger
+  recordDto: Type<SyncRecordDto>;
+  // Strips sync metadata (_status, _changed) and converts a validated client record into a row
+  sanitize: (item: any) => Record<string, any>;
+  // Prisma `where` selecting the rows a client whose last pull ended at change sequence `since` is missing
+  pullFilter: (since: number) => Record<string, any>;
+  conflictPolicy: ConflictPolicy;
+  // Column binding each row to a location. Devices only pull and push rows whose
+  // value is in their scope. Leave unset for global tables shared by every device.
+  scopeColumn?: string;
+  // Runs in the write transaction before the table's changes are applied, to fill in
+  // server-owned values. Receives validated client records and returns the ones to write.
+  beforeWrite?: (
+    tx: Prisma.TransactionClient,
+    changes: SyncTableChanges,
+    context: SyncWriteContext,
+  ) => Promise<SyncTableChanges>;
+  // Runs in the write transaction after the table's changes are applied, to update
+  // rows derived from them. Returns the tables it wrote, for change notifications.
+  afterWrite?: (
+    tx: Prisma.TransactionClient,
+    changes: SyncTableChanges,
+    context: SyncWriteContext,
+  ) => Promise<SyncTouchedTable[]>;
+  // Rows of other tables this table's rows point at. Referenced tables must come
+  // earlier in the registry.
+  references?: SyncTableReference[];
+  // Ledger-style table: pushes may only create rows, never update or delete them
+  appendOnly?: boolean;
+  // Client schema version that added the table (default 1). Older clients don't
+  // receive it; clients migrating past it receive all of its rows.
+  sinceSchemaVersion?: number;
+}
+
+// Server-owned bookkeeping columns every synced table carries. `server_seq` is
+// the change sequence of the row's last write, `created_seq` that of its insert.
+// Neither is ever sent to or accepted from clients.
+export const SYNC_SEQUENCE_COLUMNS = ['created_seq', 'server_seq'] as const;
+
+// Default pull filter: everything written after the client's last pull
+export const changedSince = (since: number) => ({ server_seq: { gt: since } });
+
+// Parse a client date value (epoch millis, ISO string or Date) into a Date
+export function toDate(value: unknown): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+  return new Date(typeof value === 'number' ? value : String(value));
+}
+
+// CREATE TABLE statement for a registered table, used when the table is missing at startup
+export function buildCreateTableSql(table: SyncTableDefinition): string {
+  const columns = table.columns.map((column) => {
+    const parts = [`\`${column.name}\``, column.sqlType];
+    parts.push(column.nullable ? 'NULL' : 'NOT NULL');
+    if (column.default !== undefined) {
+      parts.push(`DEFAULT ${column.default}`);
+    }
+    return `  ${parts.join(' ')},`;
+  });
+
+  return [
+    `CREATE TABLE IF NOT EXISTS \`${table.name}\` (`,
+    ...columns,
+    '  `created_seq` BIGINT NOT NULL DEFAULT 0,',
+    '  `server_seq` BIGINT NOT NULL DEFAULT 0,',
+    `  INDEX \`${table.name}_server_seq_id_idx\` (\`server_seq\`, \`id\`),`,
+    '  PRIMARY KEY (`id`)',
+    ') DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;',
+  ].join('\n');
+}
@@ -0,0 +1,573 @@
+import { createTableStatements } from '../src/prisma/table-ddl';
+import { mysqlDialect, SqlDialect } from '../src/prisma/sql-dialect';
+import { SYNC_TABLES } from '../src/sync/tables';
+
+// A stored row. Values stay loosely typed so specs can read columns directly.
+export type FakeRow = Record<string, any>;
+
+// Prisma `where`: column values or filters, combined with AND, OR and NOT
+type FakeWhere = Record<string, unknown>;
+
+// Filter operators of one column
+interface FakeFilter {
+  equals?: unknown;
+  in?: unknown[];
+  notIn?: unknown[];
+  not?: unknown;
+  gt?: unknown;
+  gte?: unknown;
+  lt?: unknown;
+  lte?: unknown;
+  contains?: unknown;
+}
+
+type FakeOrderBy = Record<string, 'asc' | 'desc'>;
+
+interface FakeFindArgs {
+  where?: FakeWhere;
+  orderBy?: FakeOrderBy | FakeOrderBy[];
+  take?: number;
+  skip?: number;
+  select?: Record<string, boolean>;
+}
+
+interface FakeColumn {
+  name: string;
+  nullable: boolean;
+  autoIncrement: boolean;
+  default?: () => unknown;
+}
+
+interface FakeTableSchema {
+  primaryKey: string[];
+  columns: Map<string, FakeColumn>;
+}
+
+interface FakeState {
+  tables: Record<string, Map<string, FakeRow>>;
+  rawStatements: string[];
+  rawQueries: string[];
+  nextId: number;
+}
+
+export interface FakePrismaOptions {
+  // Synced tables the client has a model for; the others are only reachable
+  // through raw SQL, as with a Prisma client that was not regenerated
+  models?: string[];
+  // Raw statements mentioning this text, in the SQL or a bound value, fail
+  failRawOn?: string;
+  dialect?: SqlDialect;
+}
+
+const OPERATORS = ['in', 'notIn', 'gt', 'gte', 'lt', 'lte', 'not', 'equals'];
+
+const parseDefault = (value: string): (() => unknown) => {
+  if (value.startsWith('CURRENT_TIMESTAMP')) return () => new Date();
+  if (value === 'true' || value === 'false') return () => value === 'true';
+  if (value.startsWith("'")) return () => value.slice(1, -1);
+  return () => Number(value);
+};
+
+// Keys, defaults and NOT NULL constraints of every table, read from the DDL
+// the server creates its tables with
+const SCHEMAS: Record<string, FakeTableSchema> = Object.fromEntries(
+  createTableStatements().map(({ name, ddl }) => {
+    const columns = new Map<string, FakeColumn>();
+    for (const line of ddl.split('\n')) {
+      const match =
+        /^\s*`(\w+)` [A-Z]+(?:\([^)]*\))? (NOT NULL|NULL)(?: DEFAULT (.+?))?( AUTO_INCREMENT)?,?$/.exec(
+          line,
+        );
+      if (match) {
+        columns.set(match[1], {
+          name: match[1],
+          nullable: match[2] === 'NULL',
+          autoIncrement: Boolean(match[4]),
+          default: match[3] === undefined ? undefined : parseDefault(match[3]),
+        });
+      }
+    }
+    const primaryKey = [
+      ...(/PRIMARY KEY \(([^)]*)\)/.exec(ddl)?.[1] ?? '').matchAll(/`(\w+)`/g),
+    ].map((m) => m[1]);
+    return [name, { primaryKey, columns }];
+  }),
+);
+
+const prismaError = (code: string, message: string) =>
+  Object.assign(new Error(message), { code });
+
+// Value as the database compares it: dates by time, BigInts as numbers
+const comparable = (value: unknown) => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'bigint') return Number(value);
+  return value as string | number;
+};
+
+const compare = (value: unknown, condition: unknown): boolean => {
+  if (condition instanceof Date || condition === null) {
+    return comparable(value ?? null) === comparable(condition);
+  }
+  if (typeof condition === 'object') {
+    const filter = condition as FakeFilter;
+    const v = comparable(value);
+    const c = (key: keyof FakeFilter) => comparable(filter[key]);
+    return (
+      (!('equals' in filter) || v === c('equals')) &&
+      (!filter.in || filter.in.map(comparable).includes(v)) &&
+      (!filter.notIn || !filter.notIn.map(comparable).includes(v)) &&
+      (!('not' in filter) || !compare(value, filter.not)) &&
+      (!('gt' in filter) || v > c('gt')) &&
+      (!('gte' in filter) || v >= c('gte')) &&
+      (!('lt' in filter) || v < c('lt')) &&
+      (!('lte' in filter) || v <= c('lte')) &&
+      (!('contains' in filter) ||
+        String(value).includes(String(filter.contains)))
+    );
+  }
+  return comparable(value) === comparable(condition);
+};
+
+const isFilter = (condition: unknown): condition is FakeWhere =>
+  condition !== null &&
+  typeof condition === 'object' &&
+  !(condition instanceof Date) &&
+  !Object.keys(condition).some((key) =>
+    [...OPERATORS, 'contains'].includes(key),
+  );
+
+// Prisma `where` semantics for the filters the services use. A nested object
+// without operators is a compound unique key, e.g. `device_id_batch_id`.
+export const matches = (row: FakeRow, where: FakeWhere = {}): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    if (key === 'AND') {
+      return ([condition].flat() as FakeWhere[]).every((c) => matches(row, c));
+    }
+    if (key === 'OR') {
+      return (condition as FakeWhere[]).some((c) => matches(row, c));
+    }
+    if (key === 'NOT') {
+      return !([condition].flat() as FakeWhere[]).some((c) => matches(row, c));
+    }
+    if (isFilter(condition)) return matches(row, condition);
+    return compare(row[key], condition);
+  });
+
+const sortRows = (rows: FakeRow[], orderBy: FakeOrderBy | FakeOrderBy[] = []) =>
+  rows.sort((a, b) => {
+    for (const order of [orderBy].flat()) {
+      const [[key, direction]] = Object.entries(order);
+      const sign = direction === 'desc' ? -1 : 1;
+      if (comparable(a[key]) < comparable(b[key])) return -sign;
+      if (comparable(a[key]) > comparable(b[key])) return sign;
+    }
+    return 0;
+  });
+
+const project = (row: FakeRow, select?: Record<string, boolean>) =>
+  select
+    ? Object.fromEntries(
+        Object.keys(select)
+          .filter((key) => select[key])
+          .map((key) => [key, row[key]]),
+      )
+    : { ...row };
+
+// `data` of an update applied to `row`, with Prisma's atomic number operations
+const applyUpdate = (row: FakeRow, data: Record<string, unknown>) => {
+  const updated = { ...row };
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (
+      value !== null &&
+      typeof value === 'object' &&
+      !(value instanceof Date)
+    ) {
+      const operation = value as {
+        increment?: unknown;
+        decrement?: unknown;
+        set?: unknown;
+      };
+      const current = Number(row[key] ?? 0);
+      if ('increment' in operation)
+        updated[key] = current + Number(operation.increment);
+      else if ('decrement' in operation)
+        updated[key] = current - Number(operation.decrement);
+      else if ('set' in operation) updated[key] = operation.set;
+      else updated[key] = value;
+    } else {
+      updated[key] = value;
+    }
+  }
+  return updated;
+};
+
+// Methods that answer with a promise, as the Prisma client's do; errors reject
+const promised = <M extends Record<string, (...args: never[]) => unknown>>(
+  methods: M,
+) =>
+  Object.fromEntries(
+    Object.entries(methods).map(([name, method]) => [
+      name,
+      (...args: never[]) =>
+        new Promise<unknown>((resolve) => resolve(method(...args))),
+    ]),
+  ) as {
+    [K in keyof M]: (...args: Parameters<M[K]>) => Promise<ReturnType<M[K]>>;
+  };
+
+// Identifiers of a raw statement, quoted for either dialect
+const identifiers = (sql: string) =>
+  [...sql.matchAll(/[`"](\w+)[`"]/g)].map((m) => m[1]);
+
+// 🧪 In-memory stand-in for PrismaService. Tables hold rows keyed by their
+// primary key and take their defaults and NOT NULL constraints from the server's
+// DDL. Models implement the part of the Prisma client API the services use, and
+// raw SQL understands the INSERT, DELETE and SELECT statements they build.
+// Interactive transactions run against a copy of the data that only replaces it
+// on success, so a thrown error behaves like a database rollback.
+export function createFakePrisma(options: FakePrismaOptions = {}) {
+  const syncTables = SYNC_TABLES.map((table) => table.name);
+  const modelNames = new Set([
+    ...(options.models ?? syncTables),
+    ...Object.keys(SCHEMAS).filter((name) => !syncTables.includes(name)),
+  ]);
+  let state: FakeState = {
+    tables: Object.fromEntries(
+      Object.keys(SCHEMAS).map((name) => [name, new Map<string, FakeRow>()]),
+    ),
+    rawStatements: [],
+    rawQueries: [],
+    nextId: 1,
+  };
+
+  const keyOf = (name: string, row: FakeRow) =>
+    SCHEMAS[name].primaryKey.map((column) => String(row[column])).join('/');
+
+  // Row as the database would store it: defaults filled in, and the write
+  // refused like a strict-mode database when a NOT NULL column would be NULL
+  const checked = (name: string, row: FakeRow, target: FakeState) => {
+    const complete = { ...row };
+    for (const column of SCHEMAS[name].columns.values()) {
+      if (complete[column.name] === undefined && column.autoIncrement) {
+        complete[column.name] = BigInt(target.nextId++);
+      } else if (complete[column.name] === undefined && column.default) {
+        complete[column.name] = column.default();
+      }
+      if (
+        !column.nullable &&
+        (complete[column.name] === null ||
+          (complete[column.name] === undefined && !column.default))
+      ) {
+        throw prismaError('P2011', `Column '${column.name}' cannot be null`);
+      }
+    }
+    return complete;
+  };
+
+  const assertNotNull = (name: string, values: FakeRow) => {
+    for (const [key, value] of Object.entries(values)) {
+      if (
+        value === null &&
+        SCHEMAS[name].columns.get(key)?.nullable === false
+      ) {
+        throw prismaError('P2011', `Column '${key}' cannot be null`);
+      }
+    }
+  };
+
+  const insert = (name: string, row: FakeRow, target: FakeState) => {
+    const complete = checked(name, row, target);
+    const key = keyOf(name, complete);
+    if (target.tables[name].has(key)) {
+      throw prismaError('P2002', `Unique constraint failed on ${name} ${key}`);
+    }
+    target.tables[name].set(key, complete);
+    return complete;
+  };
+
+  // INSERT (optionally ignoring or updating existing keys) and DELETE ... IN
+  const executeRaw = (target: FakeState, sql: string, params: unknown[]) => {
+    const insertMatch =
+      /^INSERT (?:IGNORE |OR IGNORE )?INTO [`"](\w+)[`"] \((.*?)\) VALUES (.*?)(?: ON DUPLICATE KEY UPDATE (.*)| ON CONFLICT \(.*?\) DO UPDATE SET (.*))?$/.exec(
+        sql,
+      );
+    if (insertMatch && target.tables[insertMatch[1]]) {
+      const name = insertMatch[1];
+      const columns = identifiers(insertMatch[2]);
+      const updates = [
+        ...(insertMatch[4] ?? insertMatch[5] ?? '').matchAll(
+          /[`"](\w+)[`"] = /g,
+        ),
+      ].map((m) => m[1]);
+      const ignore = / IGNORE /.test(sql);
+      let count = 0;
+      for (let i = 0; i < params.length; i += columns.length) {
+        const row = Object.fromEntries(
+          columns.map((column, j) => [column, params[i + j]]),
+        );
+        assertNotNull(name, row);
+        const existing = target.tables[name].get(keyOf(name, row));
+        if (existing && (ignore || updates.length > 0)) {
+          const picked = Object.fromEntries(updates.map((c) => [c, row[c]]));
+          target.tables[name].set(keyOf(name, row), { ...existing, ...picked });
+        } else {
+          insert(name, row, target);
+        }
+        count++;
+      }
+      return count;
+    }
+    const deleteMatch =
+      /^DELETE FROM [`"](\w+)[`"] WHERE [`"](\w+)[`"] IN \(/.exec(sql);
+    if (deleteMatch && target.tables[deleteMatch[1]]) {
+      const table = target.tables[deleteMatch[1]];
+      let count = 0;
+      for (const [key, row] of table) {
+        if (params.map(String).includes(String(row[deleteMatch[2]]))) {
+          table.delete(key);
+          count++;
+        }
+      }
+      return count;
+    }
+    return 0;
+  };
+
+  // SELECT <columns> FROM <table> WHERE <column> = ? | IN (...) | > ? ... [AND ...]
+  const queryRaw = (
+    target: FakeState,
+    sql: string,
+    params: unknown[],
+  ): FakeRow[] => {
+    const match = /^SELECT (.*?) FROM [`"](\w+)[`"](?: WHERE (.*))?$/.exec(sql);
+    if (!match || !target.tables[match[2]]) {
+      return [];
+    }
+    const values = [...params];
+    const where: FakeWhere[] = (match[3] ?? '')
+      .split(' AND ')
+      .filter(Boolean)
+      .map((condition) => {
+        const [column] = identifiers(condition);
+        if (/ IN \(/.test(condition)) {
+          const count = (condition.match(/\?/g) ?? []).length;
+          return { [column]: { in: values.splice(0, count) } };
+        }
+        const operator = /(<=|>=|<|>|=)/.exec(condition)![1];
+        const value = values.shift();
+        const filters: Record<string, unknown> = {
+          '=': value,
+          '>': { gt: value },
+          '>=': { gte: value },
+          '<': { lt: value },
+          '<=': { lte: value },
+        };
+        return { [column]: filters[operator] };
+      });
+    const columns = identifiers(match[1]);
+    return [...target.tables[match[2]].values()]
+      .filter((row) => matches(row, { AND: where }))
+      .map((row) =>
+        columns.length > 0
+          ? Object.fromEntries(columns.map((column) => [column, row[column]]))
+          : { ...row },
+      );
+  };
+
+  const model = (name: string, getState: () => FakeState) => {
+    const table = () => getState().tables[name];
+    const findMany = ({
+      where,
+      orderBy,
+      take,
+      skip,
+      select,
+    }: FakeFindArgs = {}) =>
+      sortRows(
+        [...table().values()].filter((row) => matches(row, where)),
+        orderBy,
+      )
+        .slice(skip ?? 0, take === undefined ? undefined : (skip ?? 0) + take)
+        .map((row) => project(row, select));
+    const findFirst = (args: FakeFindArgs = {}): FakeRow | null =>
+      findMany(args)[0] ?? null;
+    const updateRow = (row: FakeRow, data: FakeRow) => {
+      const updated = applyUpdate(row, data);
+      assertNotNull(name, updated);
+      if (keyOf(name, updated) !== keyOf(name, row)) {
+        table().delete(keyOf(name, row));
+      }
+      table().set(keyOf(name, updated), updated);
+      return updated;
+    };
+    const update = ({ where, data }: { where: FakeWhere; data: FakeRow }) => {
+      const row = [...table().values()].find((r) => matches(r, where));
+      if (!row) {
+        throw prismaError('P2025', `No ${name} row to update`);
+      }
+      return updateRow(row, data);
+    };
+    const deleteMany = ({ where }: { where?: FakeWhere } = {}) => {
+      let count = 0;
+      for (const [key, row] of table()) {
+        if (matches(row, where)) {
+          table().delete(key);
+          count++;
+        }
+      }
+      return { count };
+    };
+
+    return promised({
+      findMany: (args?: FakeFindArgs) => findMany(args),
+      findFirst: (args?: FakeFindArgs) => findFirst(args),
+      findUnique: (args: FakeFindArgs) => findFirst(args),
+      count: ({ where }: { where?: FakeWhere } = {}) =>
+        findMany({ where }).length,
+      create: ({ data }: { data: FakeRow }) => ({
+        ...insert(name, data, getState()),
+      }),
+      createMany: ({
+        data,
+        skipDuplicates,
+      }: {
+        data: FakeRow | FakeRow[];
+        skipDuplicates?: boolean;
+      }) => {
+        let count = 0;
+        for (const row of [data].flat()) {
+          if (skipDuplicates && table().has(keyOf(name, row))) continue;
+          insert(name, row, getState());
+          count++;
+        }
+        return { count };
+      },
+      update: (args: { where: FakeWhere; data: FakeRow }) => ({
+        ...update(args),
+      }),
+      updateMany: ({ where, data }: { where: FakeWhere; data: FakeRow }) => {
+        const rows = [...table().values()].filter((row) => matches(row, where));
+        for (const row of rows) {
+          updateRow(row, data);
+        }
+        return { count: rows.length };
+      },
+      upsert: ({
+        where,
+        create,
+        update: data,
+      }: {
+        where: FakeWhere;
+        create: FakeRow;
+        update: FakeRow;
+      }) =>
+        findFirst({ where })
+          ? { ...update({ where, data }) }
+          : { ...insert(name, create, getState()) },
+      delete: ({ where }: { where: FakeWhere }) => {
+        const row = findFirst({ where });
+        if (!row) {
+          throw prismaError('P2025', `No ${name} row to delete`);
+        }
+        deleteMany({ where });
+        return row;
+      },
+      deleteMany: (args?: { where?: FakeWhere }) => deleteMany(args),
+      groupBy: ({
+        by,
+        where,
+        _sum = {},
+      }: {
+        by: string[];
+        where?: FakeWhere;
+        _sum?: Record<string, boolean>;
+      }) => {
+        const groups = new Map<
+          string,
+          FakeRow & { _sum: Record<string, number> }
+        >();
+        for (const row of findMany({ where })) {
+          const key = JSON.stringify(by.map((field) => String(row[field])));
+          const group = groups.get(key) ?? {
+            ...Object.fromEntries(by.map((field) => [field, row[field]])),
+            _sum: Object.fromEntries(Object.keys(_sum).map((f) => [f, 0])),
+          };
+          for (const field of Object.keys(_sum)) {
+            group._sum[field] += Number(row[field] ?? 0);
+          }
+          groups.set(key, group);
+        }
+        return [...groups.values()];
+      },
+    });
+  };
+
+  type FakeModel = ReturnType<typeof model>;
+
+  const client = (getState: () => FakeState) =>
+    Object.assign(
+      {
+        dialect: options.dialect ?? mysqlDialect,
+        ...promised({
+          $executeRawUnsafe: (sql: string, ...params: unknown[]) => {
+            if (
+              options.failRawOn &&
+              [sql, ...params].some((part) =>
+                String(part).includes(options.failRawOn!),
+              )
+            ) {
+              throw new Error(`Raw statement failed: ${options.failRawOn}`);
+            }
+            const count = executeRaw(getState(), sql, params);
+            getState().rawStatements.push(sql);
+            return count;
+          },
+          $queryRawUnsafe: (sql: string, ...params: unknown[]) => {
+            getState().rawQueries.push(sql);
+            return queryRaw(getState(), sql, params);
+          },
+        }),
+      },
+      Object.fromEntries(
+        [...modelNames].map((name): [string, FakeModel] => [
+          name,
+          model(name, getState),
+        ]),
+      ),
+    );
+
+  const prisma = Object.assign(
+    client(() => state),
+    {
+      $transaction: async <T>(
+        fn: (tx: ReturnType<typeof client>) => Promise<T>,
+      ) => {
+        const draft: FakeState = structuredClone(state);
+        const result = await fn(client(() => draft));
+        state = draft;
+        return result;
+      },
+    },
+  );
+
+  return {
+    prisma,
+    // Committed rows of a table, keyed by primary key (`id` for synced tables)
+    table: (name: string) => state.tables[name],
+    rows: (name: string) => [...state.tables[name].values()],
+    // Add rows as they are, without defaults or constraints
+    insert: (name: string, ...rows: FakeRow[]) => {
+      for (const row of rows) {
+        state.tables[name].set(keyOf(name, row), { ...row });
+      }
+    },
+    // Raw statements of committed work, in order
+    rawStatements: () => state.rawStatements,
+    // Raw queries of committed work, in order
+    rawQueries: () => state.rawQueries,
+  };
+}
+
+export type FakePrisma = ReturnType<typeof createFakePrisma>;
@@ -0,0 +1,131 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { LATEST_SCHEMA_VERSION } from './../src/sync/schema-versions';
+
+const ADMIN_KEY = 'e2e-admin-key';
+
+// Pushes through the raw SQL write path and pulls back through the Prisma models
+// of a real SQLite database. Needs a fresh database created from the SQLite
+// schema; `npm run test:e2e:sqlite` creates one.
+const describeSqlite = process.env.DATABASE_URL?.startsWith('file:')
+  ? describe
+  : describe.skip;
+
+describeSqlite('Sync on SQLite (e2e)', () => {
+  let app: INestApplication<App>;
+  let deviceKey: string;
+
+  beforeAll(async () => {
+    process.env.SYNC_ADMIN_API_KEY = ADMIN_KEY;
+    process.env.SYNC_SNAPSHOT_INTERVAL_MS = '0';
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    const { body } = await request(app.getHttpServer())
+      .post('/devices')
+      .set('Authorization', `Bearer ${ADMIN_KEY}`)
+      .send({
+        id: `e2e-${Date.now()}`,
+        name: 'E2E till',
+        location_ids: ['loc-1'],
+      })
+      .expect(201);
+    deviceKey = body.api_key;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('lists the synced tables in the admin health check', async () => {
+    const { body } = await request(app.getHttpServer())
+      .get('/sync/health')
+      .set('Authorization', `Bearer ${ADMIN_KEY}`)
+      .expect(200);
+
+    expect(body.tables).toEqual(
+      expect.arrayContaining(['mh_off_orders', 'mh_products']),
+    );
+  });
+
+  it('pulls back what a device pushed', async () => {
+    const orderDate = Date.UTC(2024, 2, 5);
+    const orderTime = new Date(orderDate);
+    orderTime.setHours(18, 34, 16, 0);
+    const suffix = Date.now();
+
+    await request(app.getHttpServer())
+      .post(`/sync?schema_version=${LATEST_SCHEMA_VERSION}`)
+      .set('Authorization', `Bearer ${deviceKey}`)
+      .send({
+        mh_products: {
+          created: [
+            {
+              id: `p-${suffix}`,
+              product_code: `E2E-${suffix}`,
+              product_name: 'Espresso',
+              description: '',
+              price: 2.5,
+              stock_quantity: 0,
+              is_active: true,
+              _status: 'created',
+              _changed: '',
+            },
+          ],
+          updated: [],
+          deleted: [],
+        },
+        mh_off_orders: {
+          created: [
+            {
+              id: `o-${suffix}`,
+              location_id: 'loc-1',
+              customer_id: null,
+              order_no: '1',
+              order_type_id: 'type-1',
+              order_date: orderDate,
+              order_time: '18:34:16',
+              ip_address: '127.0.0.1',
+              user_agent: 'e2e',
+              _status: 'created',
+              _changed: '',
+            },
+          ],
+          updated: [],
+          deleted: [],
+        },
+      })
+      .expect(201);
+
+    const { body } = await request(app.getHttpServer())
+      .get(`/sync?schema_version=${LATEST_SCHEMA_VERSION}`)
+      .set('Authorization', `Bearer ${deviceKey}`)
+      .expect(200);
+
+    const order = body.changes.mh_off_orders.created.find(
+      (row: any) => row.id === `o-${suffix}`,
+    );
+    expect(order).toMatchObject({
+      location_id: 'loc-1',
+      device_order_no: '1',
+      order_date: new Date(orderDate).toISOString(),
+      order_time: orderTime.toISOString(),
+    });
+    const product = body.changes.mh_products.created.find(
+      (row: any) => row.id === `p-${suffix}`,
+    );
+    expect(product).toMatchObject({
+      product_code: `E2E-${suffix}`,
+      description: null,
+      is_active: true,
+    });
+    expect(Number(product.price)).toBe(2.5);
+  });
+});
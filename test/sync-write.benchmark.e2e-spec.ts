@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { AppModule } from './../src/app.module';
+import { PrismaService } from './../src/prisma/prisma.service';
+import { SyncService } from './../src/sync/sync.service';
+import { LATEST_SCHEMA_VERSION } from './../src/sync/schema-versions';
+import { mhProductsTable } from './../src/sync/tables/mh-products.table';
+import { SYNC_SEQUENCE_COLUMNS } from './../src/sync/tables';
+
+const ROWS = Number(process.env.SYNC_BENCHMARK_ROWS ?? 10_000);
+// The per-row path takes minutes for 10k rows on a networked database
+const TIMEOUT_MS = 30 * 60 * 1000;
+
+// Benchmark of a large end-of-day push against the database in DATABASE_URL:
+// today's multi-row upserts against the one-statement-per-row writes pushes
+// used before. Opt-in, as it writes ROWS products per path:
+// `SYNC_BENCHMARK=1 npm run test:e2e -- sync-write.benchmark`.
+const describeBenchmark = process.env.SYNC_BENCHMARK ? describe : describe.skip;
+
+describeBenchmark('Push write throughput (benchmark)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+  let syncService: SyncService;
+  const timings: { path: string; ms: number }[] = [];
+
+  const products = (run: string) =>
+    Array.from({ length: ROWS }, (_, i) => ({
+      id: `bench-${run}-${i}`,
+      product_code: `BENCH-${run}-${i}`,
+      product_name: `Product ${i}`,
+      description: '',
+      price: 9.5,
+      stock_quantity: 0,
+      is_active: true,
+      _status: 'created',
+      _changed: '',
+    }));
+
+  const time = async (path: string, write: () => Promise<unknown>) => {
+    const startedAt = performance.now();
+    await write();
+    timings.push({ path, ms: performance.now() - startedAt });
+  };
+
+  const countRows = (run: string) =>
+    prisma.mh_products.count({
+      where: { id: { startsWith: `bench-${run}-` } },
+    });
+
+  // The write loop of pushes before multi-row upserts: one upsert per row through
+  // the Prisma model or, for tables the client has no model for, one raw upsert
+  // followed by a SELECT of the row to "verify" it. One transaction, as a push.
+  const writePerRow = (items: ReturnType<typeof products>, raw: boolean) =>
+    prisma.$transaction(
+      async (tx) => {
+        const { value } = await tx.sync_sequence.update({
+          where: { name: 'changes' },
+          data: { value: { increment: 1 } },
+        });
+        const seq = Number(value);
+        const q = (identifier: string) => prisma.dialect.quote(identifier);
+        const columns = [
+          ...mhProductsTable.columns.map((column) => column.name),
+          ...SYNC_SEQUENCE_COLUMNS,
+        ];
+        for (const item of items) {
+          const stamp = { server_seq: seq, updated_at: new Date() };
+          const row = mhProductsTable.sanitize(
+            item,
+          ) as Prisma.mh_productsCreateInput;
+          const record: Record<string, unknown> = {
+            ...row,
+            ...stamp,
+            created_seq: seq,
+          };
+          if (!raw) {
+            await tx.mh_products.upsert({
+              where: { id: item.id },
+              create: { ...row, ...stamp, created_seq: seq },
+              update: { ...row, ...stamp },
+            });
+            continue;
+          }
+          const fields = Object.keys(record).filter((key) =>
+            columns.includes(key),
+          );
+          await tx.$executeRawUnsafe(
+            prisma.dialect.upsert('mh_products', fields, fields, 'id'),
+            ...fields.map((field) => record[field]),
+          );
+          await tx.$queryRawUnsafe(
+            `SELECT * FROM ${q('mh_products')} WHERE ${q('id')} = ?`,
+            item.id,
+          );
+        }
+      },
+      { maxWait: 10_000, timeout: TIMEOUT_MS },
+    );
+
+  beforeAll(async () => {
+    process.env.SYNC_SNAPSHOT_INTERVAL_MS = '0';
+    process.env.SYNC_PURGE_INTERVAL_MS = '0';
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    prisma = app.get(PrismaService);
+    syncService = app.get(SyncService);
+  });
+
+  afterEach(async () => {
+    await prisma.mh_products.deleteMany({
+      where: { id: { startsWith: 'bench-' } },
+    });
+  });
+
+  afterAll(async () => {
+    console.info(
+      `${ROWS}-row push into mh_products (${prisma.dialect.name}):\n` +
+        timings
+          .map(
+            ({ path, ms }) =>
+              `  ${path}: ${(ms / 1000).toFixed(1)} s, ${Math.round(ROWS / (ms / 1000))} rows/s`,
+          )
+          .join('\n'),
+    );
+    await app.close();
+  });
+
+  it(
+    'pushes the rows with multi-row upserts',
+    async () => {
+      await time(
+        `multi-row upserts (SYNC_WRITE_CHUNK_SIZE=${process.env.SYNC_WRITE_CHUNK_SIZE ?? 500})`,
+        () =>
+          syncService.push(
+            {
+              mh_products: {
+                created: products('batched'),
+                updated: [],
+                deleted: [],
+              },
+            },
+            undefined,
+            { deviceId: 'benchmark', locationIds: [] },
+            undefined,
+            LATEST_SCHEMA_VERSION,
+          ),
+      );
+
+      expect(await countRows('batched')).toBe(ROWS);
+    },
+    TIMEOUT_MS,
+  );
+
+  it(
+    'writes the rows with one model upsert per row, as pushes did before',
+    async () => {
+      await time('per-row model upserts', () =>
+        writePerRow(products('model'), false),
+      );
+
+      expect(await countRows('model')).toBe(ROWS);
+    },
+    TIMEOUT_MS,
+  );
+
+  it(
+    'writes the rows with one raw upsert and SELECT per row, as the raw SQL fallback did before',
+    async () => {
+      await time('per-row raw upserts with a verifying SELECT', () =>
+        writePerRow(products('raw'), true),
+      );
+
+      expect(await countRows('raw')).toBe(ROWS);
+    },
+    TIMEOUT_MS,
+  );
+});